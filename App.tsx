@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
 import {
   StyleSheet,
   Text,
@@ -13,72 +13,233 @@ import {
   KeyboardAvoidingView,
   Platform,
   Keyboard,
+  Share,
+  Switch,
+  AppState,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  priority: 'low' | 'medium' | 'high';
-  category: string;
-  createdAt: Date;
-  // Advanced scheduling
-  schedule?: {
-    type: 'daily' | 'weekly' | 'monthly' | 'custom';
-    time?: string; // HH:MM format
-    dayOfWeek?: number; // 0-6, Sunday = 0
-    dayOfMonth?: number; // 1-31
-    customCron?: string; // For advanced patterns like "every second Friday"
-  };
-  lastCompletedAt?: string;
-}
+import { StatusFilter, selectFilteredTasks, selectRedoEntry, selectStats, selectUndoEntry } from './src/state/selectors';
+import { createTaskStore, persistTo } from './src/state/store';
+import { openTaskRepository } from './src/storage/openRepository';
+import { TaskRepository } from './src/storage/repository';
+import { StorageError } from './src/storage/schema';
+import { ImportMode, applyImport, exportCsv, exportJson, parseImport } from './src/storage/transfer';
+import { exportIcs, parseIcs } from './src/storage/ical';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './src/storage/settings';
+import { loadCategories, saveCategories } from './src/storage/categories';
+import { syncNotifications } from './src/services/notifications';
+import { registerBackgroundResets } from './src/services/backgroundResets';
+import {
+  Category,
+  GroupBy,
+  MonthlyRule,
+  Priority,
+  Schedule,
+  ScheduleType,
+  Settings,
+  SortOrder,
+  Subtask,
+  Task,
+} from './src/types';
+import {
+  MONTHLY_RULES,
+  SCHEDULE_PRESETS,
+  WEEKDAY_NAMES,
+  WEEKS_OF_MONTH,
+  formatOrdinal,
+  getNextResetTime,
+  getScheduleLabel,
+} from './src/utils/scheduler';
+import { computeStreaks } from './src/utils/streaks';
+import { planNotifications } from './src/utils/notifications';
+import {
+  DUE_FILTERS,
+  DueFilter,
+  formatDueAt,
+  getDueLabel,
+  getDueStatus,
+  parseDueAt,
+} from './src/utils/due';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  DEFAULT_CATEGORIES,
+  countTasksInCategory,
+  deleteCategory,
+  findCategory,
+  getCategoryColor,
+  getPickerCategories,
+  moveCategory,
+  updateCategory,
+  validateCategoryName,
+  withTaskCategories,
+} from './src/utils/categories';
+import { parseSearch } from './src/utils/query';
+import { GROUP_OPTIONS, SORT_ORDERS, groupTasks, sortTasks } from './src/utils/sorting';
+import { addSubtask, getSubtaskProgress, moveSubtask, removeSubtask } from './src/utils/subtasks';
+import { addTag, getAllTags, parseTagInput, removeTag, suggestTags } from './src/utils/tags';
+import { validateRecurrence } from './src/utils/recurrence';
+import { addDays, formatIsoDate, parseTimeOfDay } from './src/utils/dates';
+import { createId } from './src/utils/ids';
+import { TRASH_RETENTION_OPTIONS, getNextPurgeTime, getTrashLabel, withoutTrash } from './src/utils/trash';
+import { ARCHIVE_AFTER_OPTIONS, getArchiveLabel, getNextArchiveTime } from './src/utils/archive';
+import {
+  BarCount,
+  CompletionRate,
+  averageTimeToComplete,
+  completionRates,
+  completionsByWeekday,
+  completionsPerDay,
+  completionsPerWeek,
+  formatDuration,
+  getPunctuality,
+} from './src/utils/insights';
+import { getDeviceTimeZone, getZonedDateTime, isValidTimeZone } from './src/utils/timezone';
+
+// Most recent history entries shown in the edit modal
+const HISTORY_PREVIEW = 5;
+// Longest delay setTimeout accepts (about 24.8 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// How long the undo snackbar stays up
+const SNACKBAR_MS = 5000;
+// Height of the tallest bar in the insights charts
+const CHART_HEIGHT = 80;
 
-const CATEGORIES = ['Personal', 'Work', 'Shopping', 'Health', 'Ideas'];
-const PRIORITIES = [
+const PRIORITIES: { id: Priority; label: string; color: string }[] = [
   { id: 'low', label: 'Low', color: '#4CAF50' },
   { id: 'medium', label: 'Medium', color: '#FF9800' },
   { id: 'high', label: 'High', color: '#F44336' },
 ];
 
-// Advanced schedule presets
-const SCHEDULE_PRESETS = [
-  { id: 'none', label: 'No Schedule', description: 'Manual only' },
-  { id: 'daily', label: 'Daily', description: 'Every day at set time' },
-  { id: 'weekly_monday', label: 'Every Monday', description: 'Resets every Monday' },
-  { id: 'weekly_friday', label: 'Every Friday', description: 'Resets every Friday' },
-  { id: 'biweekly', label: 'Every 2 Weeks', description: 'Every other week' },
-  { id: 'monthly', label: 'Monthly', description: 'First day of each month' },
-  { id: 'second_friday', label: '2nd Friday', description: 'Every second Friday of month' },
-  { id: 'last_day', label: 'Month End', description: 'Last day of each month' },
-  { id: 'weekdays', label: 'Weekdays Only', description: 'Monday to Friday' },
-  { id: 'weekends', label: 'Weekends', description: 'Saturday and Sunday' },
-];
-
 export default function App() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const repository = useRef<TaskRepository | null>(null);
+  // Every change to the task list goes through the store
+  const [store] = useState(() => createTaskStore([persistTo(() => repository.current)]));
+  const { dispatch } = store;
+  const allTasks = useSyncExternalStore(store.subscribe, store.getState).tasks;
+  // Everything but the trash view works on these
+  const tasks = useMemo(() => withoutTrash(allTasks), [allTasks]);
+  const [snackbar, setSnackbar] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
+  const snackbarTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  // Bumped when the timer fires, so it is re-armed even if nothing changed
+  const [resetTick, setResetTick] = useState(0);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  // Nothing is purged before the retention setting has loaded
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const settingsRef = useRef<Settings | null>(null);
+  const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES);
   const [newTask, setNewTask] = useState('');
-  const [selectedPriority, setSelectedPriority] = useState<'low' | 'medium' | 'high'>('medium');
+  const [selectedPriority, setSelectedPriority] = useState<Priority>('medium');
   const [selectedCategory, setSelectedCategory] = useState('Personal');
   const [showAddModal, setShowAddModal] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
+  const [filter, setFilter] = useState<StatusFilter>('all');
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('any');
+  const [showViewModal, setShowViewModal] = useState(false);
+  const [showInsightsModal, setShowInsightsModal] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  // Task whose checklist is open in the list
+  const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   
   // Schedule state
-  const [scheduleType, setScheduleType] = useState('none');
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('none');
   const [scheduleTime, setScheduleTime] = useState('09:00');
+  const [scheduleRule, setScheduleRule] = useState('');
+  const [monthlyRule, setMonthlyRule] = useState<MonthlyRule>('day_of_month');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [weekOfMonth, setWeekOfMonth] = useState(1);
+  const [monthlyWeekday, setMonthlyWeekday] = useState(1);
+  const [scheduleTimeZone, setScheduleTimeZone] = useState(getDeviceTimeZone);
+  const [remindersOn, setRemindersOn] = useState(true);
+  const [taskTags, setTaskTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [subtaskInput, setSubtaskInput] = useState('');
+  const [autoCompleteOn, setAutoCompleteOn] = useState(true);
+
+  // Due date state, for one-off tasks
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [completionNote, setCompletionNote] = useState('');
+
+  // Export / import state
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  // Settings modal state, applied on save
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState('');
+  const [quietEnd, setQuietEnd] = useState('');
+  const [trashDays, setTrashDays] = useState(DEFAULT_SETTINGS.trashRetentionDays);
+  const [archiveDays, setArchiveDays] = useState(DEFAULT_SETTINGS.archiveAfterDays);
+
+  // Category management state; a null id means the form adds a new one
+  const [showCategoriesModal, setShowCategoriesModal] = useState(false);
+  const [categoryEditId, setCategoryEditId] = useState<string | null>(null);
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryColor, setCategoryColor] = useState(CATEGORY_COLORS[0]);
+  const [categoryIcon, setCategoryIcon] = useState(CATEGORY_ICONS[0]);
+  const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState<string | null>(null);
 
   // Load tasks from storage
   useEffect(() => {
     loadTasks();
-    
-    // Check for scheduled resets
-    const interval = setInterval(checkScheduledResets, 60000); // Check every minute
-    return () => clearInterval(interval);
+    loadSettings()
+      .then(setSettings)
+      .catch((e) => console.log('Error loading settings:', e))
+      .finally(() => setSettingsLoaded(true));
+    registerBackgroundResets();
+
+    // Timers don't run in the background, so catch up on resume
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') runScheduledChanges();
+    });
+    return () => {
+      subscription.remove();
+      if (snackbarTimeout.current) clearTimeout(snackbarTimeout.current);
+    };
   }, []);
 
+  // The settings purging and archiving go by, once loaded; a ref so the
+  // resume handler sees the latest
+  useEffect(() => {
+    if (settingsLoaded) settingsRef.current = settings;
+  }, [settings, settingsLoaded]);
+
+  // Sleep until the next reset, purge or archive is due rather than polling
+  useEffect(() => {
+    if (!loaded) return;
+    const times = [
+      getNextResetTime(tasks),
+      settingsLoaded ? getNextPurgeTime(allTasks, settings.trashRetentionDays) : null,
+      settingsLoaded ? getNextArchiveTime(tasks, settings.archiveAfterDays) : null,
+    ].flatMap((time) => (time ? [time.getTime()] : []));
+    if (times.length === 0) return;
+    const delay = Math.min(Math.max(Math.min(...times) - Date.now(), 0), MAX_TIMEOUT_MS);
+    const timeout = setTimeout(() => {
+      runScheduledChanges();
+      setResetTick((n) => n + 1);
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [allTasks, tasks, loaded, settingsLoaded, settings.trashRetentionDays, settings.archiveAfterDays, resetTick]);
+
+  // Catch up on launch and when either setting changes
+  useEffect(() => {
+    if (!loaded || !settingsLoaded) return;
+    runScheduledChanges();
+  }, [loaded, settingsLoaded, settings.trashRetentionDays, settings.archiveAfterDays]);
+
+  // Re-plan notifications whenever a task or the quiet hours change; not
+  // before the list has loaded, or we'd cancel everything pending
+  useEffect(() => {
+    if (!loaded) return;
+    syncNotifications(planNotifications(tasks, settings));
+  }, [tasks, settings, loaded]);
+
   // Keyboard visibility listener
   useEffect(() => {
     const showSub = Keyboard.addListener('keyboardDidShow', () => setKeyboardVisible(true));
@@ -91,186 +252,177 @@ export default function App() {
 
   const loadTasks = async () => {
     try {
-      const stored = await AsyncStorage.getItem('tasks');
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Check for scheduled resets
-        const resetTasks = checkAndResetTasks(parsed);
-        setTasks(resetTasks);
-      }
+      repository.current = await openTaskRepository();
+      const stored = await repository.current.list();
+      adoptTaskCategories(await loadCategories(), stored);
+      dispatch({ type: 'load', tasks: stored });
+      // Check for scheduled resets
+      dispatch({ type: 'reset', at: new Date() });
+      setLoaded(true);
     } catch (e) {
       console.log('Error loading tasks:', e);
+      if (e instanceof StorageError) {
+        Alert.alert('Could not load tasks', e.message);
+      }
     }
   };
 
-  const checkAndResetTasks = (taskList: Task[]): Task[] => {
-    const now = new Date();
-    const today = now.getDay(); // 0 = Sunday
-    const date = now.getDate();
-    const month = now.getMonth();
-    const year = now.getFullYear();
-    
-    return taskList.map(task => {
-      if (!task.schedule || task.schedule.type === 'none') return task;
-      if (!task.completed) return task; // Only reset completed tasks
-      
-      const lastCompleted = task.lastCompletedAt ? new Date(task.lastCompletedAt) : null;
-      if (!lastCompleted) return task;
-      
-      let shouldReset = false;
-      const schedule = task.schedule;
-      
-      switch (schedule.type) {
-        case 'daily':
-          // Reset if more than 24h passed
-          shouldReset = (now.getTime() - lastCompleted.getTime()) > 24 * 60 * 60 * 1000;
-          break;
-          
-        case 'weekly':
-          if (schedule.dayOfWeek !== undefined) {
-            // Check if we're past the scheduled day this week
-            const daysSinceSchedule = (today - schedule.dayOfWeek + 7) % 7;
-            const hoursSinceSchedule = daysSinceSchedule * 24 + (now.getHours() - (parseInt(schedule.time?.split(':')[0] || '9')));
-            shouldReset = daysSinceSchedule > 0 || (daysSinceSchedule === 0 && hoursSinceSchedule > 0);
-          }
-          break;
-          
-        case 'biweekly':
-          // Every 2 weeks - simplified check
-          const weeksSince = Math.floor((now.getTime() - lastCompleted.getTime()) / (14 * 24 * 60 * 60 * 1000));
-          shouldReset = weeksSince >= 1;
-          break;
-          
-        case 'monthly':
-          // Check if we've passed the day of month
-          if (schedule.dayOfMonth) {
-            const lastCompletedDate = lastCompleted.getDate();
-            const currentDate = now.getDate();
-            const lastCompletedMonth = lastCompleted.getMonth();
-            
-            if (schedule.dayOfMonth === 1) {
-              // First day - reset on new month
-              shouldReset = currentDate === 1;
-            } else if (schedule.dayOfMonth === 31) {
-              // Last day - check if we're in a month with 31 days and it's past day 30
-              const daysInMonth = new Date(year, month + 1, 0).getDate();
-              shouldReset = (daysInMonth >= 31 && currentDate >= 31) || (currentDate < lastCompletedDate && currentDate >= daysInMonth - 2);
-            } else {
-              shouldReset = currentDate >= schedule.dayOfMonth && lastCompletedDate < schedule.dayOfMonth;
-            }
-          }
-          break;
-          
-        case 'second_friday':
-          // Every second Friday of the month
-          const firstDayOfMonth = new Date(year, month, 1);
-          const firstFriday = new Date(year, month, (5 - firstDayOfMonth.getDay() + 7) % 7 + 1);
-          const secondFriday = new Date(firstFriday);
-          secondFriday.setDate(firstFriday.getDate() + 7);
-          
-          // Check if we're on or past second Friday and haven't reset yet
-          if (now >= secondFriday) {
-            const lastResetWeek = lastCompleted.getTime() >= firstFriday.getTime() ? secondFriday : firstFriday;
-            shouldReset = lastCompleted.getTime() < lastResetWeek.getTime();
-          }
-          break;
-          
-        case 'weekdays':
-          // Reset if it's a weekday and we haven't reset today
-          if (today >= 1 && today <= 5) {
-            const lastResetDay = lastCompleted.getDay();
-            shouldReset = today !== lastResetDay;
-          }
-          break;
-          
-        case 'weekends':
-          // Reset if it's weekend and we haven't reset this weekend
-          if (today === 0 || today === 6) {
-            const lastResetDay = lastCompleted.getDay();
-            shouldReset = today !== lastResetDay;
-          }
-          break;
-      }
-      
-      if (shouldReset) {
-        return { ...task, completed: false };
-      }
-      return task;
-    });
+  // Reset what is due and, once the settings have loaded, purge expired
+  // trash and archive long-done tasks
+  const runScheduledChanges = () => {
+    const at = new Date();
+    dispatch({ type: 'reset', at });
+    const current = settingsRef.current;
+    if (!current) return;
+    dispatch({ type: 'purge', at, retentionDays: current.trashRetentionDays });
+    dispatch({ type: 'archive', at, afterDays: current.archiveAfterDays });
   };
 
-  const checkScheduledResets = () => {
-    setTasks(prev => {
-      const reset = checkAndResetTasks(prev);
-      if (JSON.stringify(reset) !== JSON.stringify(prev)) {
-        saveTasks(reset);
-      }
-      return reset;
-    });
+  const showSnackbar = (message: string, action: 'undo' | 'redo') => {
+    if (snackbarTimeout.current) clearTimeout(snackbarTimeout.current);
+    setSnackbar({ message, action });
+    snackbarTimeout.current = setTimeout(() => setSnackbar(null), SNACKBAR_MS);
   };
 
-  const saveTasks = async (newTasks: Task[]) => {
-    try {
-      await AsyncStorage.setItem('tasks', JSON.stringify(newTasks));
-    } catch (e) {
-      console.log('Error saving tasks:', e);
+  const undo = () => {
+    const entry = selectUndoEntry(store.getState());
+    if (!entry) return;
+    dispatch({ type: 'undo' });
+    showSnackbar(`Undone: ${entry.label}`, 'redo');
+  };
+
+  const redo = () => {
+    const entry = selectRedoEntry(store.getState());
+    if (!entry) return;
+    dispatch({ type: 'redo' });
+    showSnackbar(entry.label, 'undo');
+  };
+
+  const newCategoryId = (name: string) => `${Date.now()}-${name.trim().toLowerCase()}`;
+
+  // Tasks can arrive with categories the list doesn't have yet, e.g. from an import
+  const adoptTaskCategories = (current: Category[], taskList: Task[]) => {
+    const merged = withTaskCategories(current, taskList, newCategoryId);
+    setCategories(merged);
+    if (merged !== current) {
+      saveCategories(merged).catch((e) => console.log('Error saving categories:', e));
+    }
+  };
+
+  // Schedule from the modal fields; an existing anchor keeps the cadence
+  const buildSchedule = (anchor?: string): Schedule | undefined => {
+    if (scheduleType === 'none') return undefined;
+    const timeZone = scheduleTimeZone.trim();
+    return {
+      type: scheduleType,
+      time: scheduleTime,
+      timeZone,
+      anchor: anchor || formatIsoDate(getZonedDateTime(new Date(), timeZone).date),
+      ...(scheduleType === 'custom' && { customCron: scheduleRule.trim() }),
+      ...(scheduleType === 'monthly' && { monthlyRule }),
+      ...(scheduleType === 'monthly' && monthlyRule === 'day_of_month' && { dayOfMonth: Number(dayOfMonth) }),
+      ...(scheduleType === 'monthly' && monthlyRule === 'nth_weekday' && {
+        weekOfMonth,
+        dayOfWeek: monthlyWeekday,
+      }),
+    };
+  };
+
+  // Due date from the modal fields; recurring tasks don't have one
+  const buildDueAt = (): string | undefined => {
+    if (scheduleType !== 'none' || !dueDate.trim()) return undefined;
+    const due = parseDueAt(dueTime.trim() ? `${dueDate.trim()}T${dueTime.trim()}` : dueDate.trim());
+    return due ? formatDueAt(due) : undefined;
+  };
+
+  // Quick picks for the due date, counted from today on the device clock
+  const pickDueDate = (daysFromToday: number | null) => {
+    if (daysFromToday === null) {
+      setDueDate('');
+      setDueTime('');
+      return;
+    }
+    const today = getZonedDateTime(new Date(), getDeviceTimeZone()).date;
+    setDueDate(formatIsoDate(addDays(today, daysFromToday)));
+  };
+
+  // Tags typed into the field but not yet added still count on save
+  const buildTags = (): string[] => parseTagInput(tagInput).reduce(addTag, taskTags);
+
+  // A comma or space ends a tag, like pressing return
+  const changeTagInput = (text: string) => {
+    if (/[\s,]$/.test(text)) {
+      setTaskTags(buildTags());
+      setTagInput('');
+    } else {
+      setTagInput(text);
     }
   };
 
   const addTask = () => {
     if (!newTask.trim()) return;
 
-    const schedule = scheduleType === 'none' ? undefined : {
-      type: scheduleType as any,
-      time: scheduleTime,
-    };
+    const schedule = buildSchedule();
+    const dueAt = buildDueAt();
+    const tags = buildTags();
+    // A step still in the input counts, like a pending tag
+    const checklist = addSubtask(subtasks, subtaskInput, createId());
 
     const task: Task = {
-      id: Date.now().toString(),
+      id: createId(),
       text: newTask.trim(),
       completed: false,
       priority: selectedPriority,
       category: selectedCategory,
+      ...(tags.length > 0 && { tags }),
       createdAt: new Date(),
       schedule,
+      ...(checklist.length > 0 && { subtasks: checklist }),
+      ...(checklist.length > 0 && autoCompleteOn && { autoComplete: true }),
+      ...(dueAt && { dueAt }),
+      ...(!remindersOn && { reminders: false }),
     };
 
-    const updated = [task, ...tasks];
-    setTasks(updated);
-    saveTasks(updated);
+    dispatch({ type: 'add', task });
     setNewTask('');
     setShowAddModal(false);
     setScheduleType('none');
     Keyboard.dismiss();
   };
 
-  const toggleTask = (id: string) => {
-    const updated = tasks.map((t) => {
-      if (t.id === id) {
-        return { 
-          ...t, 
-          completed: !t.completed,
-          lastCompletedAt: !t.completed ? new Date().toISOString() : undefined
-        };
-      }
-      return t;
-    });
-    setTasks(updated);
-    saveTasks(updated);
+  const toggleTask = (id: string, note?: string) => {
+    dispatch({ type: 'toggle', id, at: new Date(), note });
+  };
+
+  const toggleTaskSubtask = (taskId: string, subtaskId: string) => {
+    dispatch({ type: 'toggleSubtask', taskId, subtaskId, at: new Date() });
   };
 
+  const addDraftSubtask = () => {
+    setSubtasks(addSubtask(subtasks, subtaskInput, createId()));
+    setSubtaskInput('');
+  };
+
+  // No confirmation; the snackbar offers to undo instead
   const deleteTask = (id: string) => {
-    Alert.alert('Delete Task', 'Are you sure?', [
+    dispatch({ type: 'delete', id, at: new Date() });
+    showSnackbar('Moved to trash', 'undo');
+  };
+
+  const restoreTask = (id: string) => {
+    dispatch({ type: 'restore', id });
+    showSnackbar('Task restored', 'undo');
+  };
+
+  const unarchiveTask = (id: string) => {
+    dispatch({ type: 'unarchive', id, at: new Date() });
+    showSnackbar('Task restored', 'undo');
+  };
+
+  const confirmDeleteForever = (task: Task) => {
+    Alert.alert('Delete forever?', `"${task.text}" and its history will be gone.`, [
       { text: 'Cancel', style: 'cancel' },
-      {
-        text: 'Delete',
-        style: 'destructive',
-        onPress: () => {
-          const updated = tasks.filter((t) => t.id !== id);
-          setTasks(updated);
-          saveTasks(updated);
-        },
-      },
+      { text: 'Delete', style: 'destructive', onPress: () => dispatch({ type: 'deleteForever', id: task.id }) },
     ]);
   };
 
@@ -279,26 +431,47 @@ export default function App() {
     setNewTask(task.text);
     setSelectedPriority(task.priority);
     setSelectedCategory(task.category);
+    setTaskTags(task.tags ?? []);
+    setTagInput('');
+    setSubtasks(task.subtasks ?? []);
+    setSubtaskInput('');
+    setAutoCompleteOn(task.subtasks?.length ? !!task.autoComplete : true);
     setScheduleType(task.schedule?.type || 'none');
     setScheduleTime(task.schedule?.time || '09:00');
+    setScheduleRule(task.schedule?.customCron || '');
+    setMonthlyRule(task.schedule?.monthlyRule || 'day_of_month');
+    setDayOfMonth(String(task.schedule?.dayOfMonth ?? 1));
+    setWeekOfMonth(task.schedule?.weekOfMonth ?? 1);
+    setMonthlyWeekday(task.schedule?.dayOfWeek ?? 1);
+    setScheduleTimeZone(task.schedule?.timeZone || getDeviceTimeZone());
+    setRemindersOn(task.reminders !== false);
+    setDueDate(task.dueAt?.split('T')[0] ?? '');
+    setDueTime(task.dueAt?.split('T')[1] ?? '');
+    setCompletionNote('');
     setShowAddModal(true);
   };
 
   const updateTask = () => {
     if (!editingTask || !newTask.trim()) return;
 
-    const schedule = scheduleType === 'none' ? undefined : {
-      type: scheduleType as any,
-      time: scheduleTime,
-    };
+    const schedule = buildSchedule(editingTask.schedule?.anchor);
+    const tags = buildTags();
+    const checklist = addSubtask(subtasks, subtaskInput, createId());
 
-    const updated = tasks.map((t) =>
-      t.id === editingTask.id
-        ? { ...t, text: newTask.trim(), priority: selectedPriority, category: selectedCategory, schedule }
-        : t
-    );
-    setTasks(updated);
-    saveTasks(updated);
+    const current = store.getState().tasks.find((t) => t.id === editingTask.id) || editingTask;
+    const updated: Task = {
+      ...current,
+      text: newTask.trim(),
+      priority: selectedPriority,
+      category: selectedCategory,
+      tags: tags.length > 0 ? tags : undefined,
+      schedule,
+      subtasks: checklist.length > 0 ? checklist : undefined,
+      autoComplete: checklist.length > 0 && autoCompleteOn ? true : undefined,
+      dueAt: buildDueAt(),
+      reminders: remindersOn ? undefined : false,
+    };
+    dispatch({ type: 'update', task: updated });
     setNewTask('');
     setEditingTask(null);
     setShowAddModal(false);
@@ -306,71 +479,469 @@ export default function App() {
     Keyboard.dismiss();
   };
 
+  const exportTasks = async (format: 'json' | 'csv' | 'ics') => {
+    const ics = format === 'ics' ? exportIcs(tasks) : null;
+    if (ics && ics.exported === 0) {
+      Alert.alert('Nothing to export', 'Only tasks with a schedule or a due date go into a calendar file.');
+      return;
+    }
+    try {
+      await Share.share({
+        title: `CleanTasks export (${format.toUpperCase()})`,
+        message: ics ? ics.ics : format === 'json' ? exportJson(tasks) : exportCsv(tasks),
+      });
+    } catch (e) {
+      console.log('Error exporting tasks:', e);
+    }
+    if (ics && ics.skipped.length > 0) {
+      Alert.alert('Some tasks were left out', ics.skipped.join('\n'));
+    }
+  };
+
+  const runImport = async (mode: ImportMode) => {
+    let parsed;
+    try {
+      parsed = /^\s*BEGIN:VCALENDAR/i.test(importText) ? parseIcs(importText) : parseImport(importText);
+    } catch (e) {
+      Alert.alert('Could not import', e instanceof StorageError ? e.message : String(e));
+      return;
+    }
+
+    const result = applyImport(store.getState().tasks, parsed.tasks, mode);
+    const label = mode === 'replace' ? 'Tasks replaced' : 'Tasks imported';
+    if (!(await dispatch({ type: 'replace', tasks: result.tasks, label }))) {
+      dispatch({ type: 'undo' });
+      Alert.alert('Could not import', 'The task list was left unchanged');
+      return;
+    }
+    adoptTaskCategories(categories, result.tasks);
+    setImportText('');
+    setShowTransferModal(false);
+
+    const summary = [`Imported ${result.added.length} tasks`];
+    if (result.removed.length > 0) summary.push(`removed ${result.removed.length}`);
+    if (result.duplicates.length > 0) summary.push(`kept ${result.duplicates.length} existing with the same id`);
+    const skipped = parsed.skipped.length > 0 ? `\n\nSkipped:\n${parsed.skipped.join('\n')}` : '';
+    Alert.alert('Import finished', summary.join(', ') + skipped);
+    showSnackbar(label, 'undo');
+  };
+
+  const importTasks = (mode: ImportMode) => {
+    if (mode === 'merge') {
+      runImport(mode);
+      return;
+    }
+    Alert.alert('Replace all tasks?', 'Tasks that are not in the import will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Replace', style: 'destructive', onPress: () => runImport(mode) },
+    ]);
+  };
+
+  const openSettings = () => {
+    setQuietEnabled(settings.quietHours.enabled);
+    setQuietStart(settings.quietHours.start);
+    setQuietEnd(settings.quietHours.end);
+    setTrashDays(settings.trashRetentionDays);
+    setArchiveDays(settings.archiveAfterDays);
+    setShowSettingsModal(true);
+  };
+
+  const quietStartError = !parseTimeOfDay(quietStart);
+  const quietEndError = !parseTimeOfDay(quietEnd);
+
+  const applySettings = () => {
+    const updated: Settings = {
+      ...settings,
+      quietHours: { enabled: quietEnabled, start: quietStart, end: quietEnd },
+      trashRetentionDays: trashDays,
+      archiveAfterDays: archiveDays,
+    };
+    setSettings(updated);
+    saveSettings(updated).catch((e) => console.log('Error saving settings:', e));
+    setShowSettingsModal(false);
+  };
+
+  const resetCategoryForm = () => {
+    setCategoryEditId(null);
+    setCategoryName('');
+    setCategoryColor(CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length]);
+    setCategoryIcon(CATEGORY_ICONS[0]);
+    setDeletingCategoryId(null);
+  };
+
+  const openCategories = () => {
+    resetCategoryForm();
+    setShowCategoriesModal(true);
+  };
+
+  // Saves the list and any tasks a rename or delete moved, trashed ones included
+  const applyCategories = (nextCategories: Category[], nextTasks: Task[] = allTasks) => {
+    setCategories(nextCategories);
+    saveCategories(nextCategories).catch((e) => console.log('Error saving categories:', e));
+    if (nextTasks !== allTasks) dispatch({ type: 'sync', tasks: nextTasks });
+  };
+
+  const startEditCategory = (category: Category) => {
+    setCategoryEditId(category.id);
+    setCategoryName(category.name);
+    setCategoryColor(category.color);
+    setCategoryIcon(category.icon);
+    setDeletingCategoryId(null);
+  };
+
+  const categoryNameError = categoryName.trim()
+    ? validateCategoryName(categories, categoryName, categoryEditId ?? undefined)
+    : null;
+
+  const saveCategory = () => {
+    if (!categoryName.trim() || categoryNameError) return;
+    if (categoryEditId) {
+      const result = updateCategory(categories, allTasks, categoryEditId, {
+        name: categoryName,
+        color: categoryColor,
+        icon: categoryIcon,
+      });
+      applyCategories(result.categories, result.tasks);
+    } else {
+      const name = categoryName.trim();
+      applyCategories([...categories, { id: newCategoryId(name), name, color: categoryColor, icon: categoryIcon }]);
+    }
+    resetCategoryForm();
+  };
+
+  const toggleCategoryArchived = (category: Category) => {
+    applyCategories(updateCategory(categories, allTasks, category.id, { archived: category.archived ? undefined : true }).categories);
+  };
+
+  const startDeleteCategory = (category: Category) => {
+    resetCategoryForm();
+    setDeletingCategoryId(category.id);
+    setReassignTo(categories.find((c) => c.id !== category.id && !c.archived)?.id ?? null);
+  };
+
+  const confirmDeleteCategory = () => {
+    if (!deletingCategoryId || !reassignTo) return;
+    const result = deleteCategory(categories, allTasks, deletingCategoryId, reassignTo);
+    const target = categories.find((c) => c.id === reassignTo);
+    if (target && findCategory(result.categories, selectedCategory) === undefined) {
+      setSelectedCategory(target.name);
+    }
+    applyCategories(result.categories, result.tasks);
+    resetCategoryForm();
+  };
+
+  const deletingCategory = categories.find((c) => c.id === deletingCategoryId);
+  // The picker always keeps at least one category to choose
+  const activeCategoryCount = getPickerCategories(categories).length;
+
+  // Sort and grouping apply right away and are remembered with the settings
+  const changeView = (view: { sortBy?: SortOrder; groupBy?: GroupBy }) => {
+    const updated: Settings = { ...settings, ...view };
+    setSettings(updated);
+    saveSettings(updated).catch((e) => console.log('Error saving settings:', e));
+  };
+
+  const completeWithNote = () => {
+    if (!editingTask) return;
+    toggleTask(editingTask.id, completionNote);
+    closeModal();
+  };
+
   const closeModal = () => {
     setShowAddModal(false);
     setEditingTask(null);
     setNewTask('');
     setScheduleType('none');
+    setScheduleRule('');
     Keyboard.dismiss();
   };
 
-  // Filter tasks by search + status
-  const filteredTasks = tasks.filter((t) => {
-    // Search filter
-    if (searchQuery && !t.text.toLowerCase().includes(searchQuery.toLowerCase())) {
-      return false;
-    }
-    // Status filter
-    if (filter === 'active') return !t.completed;
-    if (filter === 'completed') return t.completed;
-    return true;
-  });
+  // Custom patterns and reset times must parse before the task can be saved
+  const ruleError = scheduleType === 'custom' ? validateRecurrence(scheduleRule) : null;
+  const timeError = scheduleType !== 'none' && !parseTimeOfDay(scheduleTime);
+  const dayOfMonthError = scheduleType === 'monthly' && monthlyRule === 'day_of_month' &&
+    !(/^\d{1,2}$/.test(dayOfMonth) && Number(dayOfMonth) >= 1 && Number(dayOfMonth) <= 31);
+  const timeZoneError = scheduleType !== 'none' && !isValidTimeZone(scheduleTimeZone.trim());
+  const dueError = scheduleType === 'none' && dueDate.trim().length > 0 && !buildDueAt();
+  const canSave =
+    newTask.trim().length > 0 && !ruleError && !timeError && !dayOfMonthError && !timeZoneError && !dueError;
+  const showRuleError = scheduleRule.length > 0 && !!ruleError;
+
+  const search = useMemo(() => parseSearch(searchQuery), [searchQuery]);
+
+  const filteredTasks = selectFilteredTasks(allTasks, { status: filter, search, due: dueFilter, tags: tagFilter });
+  const sections = groupTasks(sortTasks(filteredTasks, settings.sortBy, { categories }), settings.groupBy, { categories });
+
+  const allTags = useMemo(() => getAllTags(tasks), [tasks]);
+  const tagSuggestions = suggestTags(allTags, tagInput, taskTags);
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(tagFilter.includes(tag) ? removeTag(tagFilter, tag) : [...tagFilter, tag]);
+  };
 
   const getPriorityColor = (priority: string) => {
     return PRIORITIES.find((p) => p.id === priority)?.color || '#999';
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors: Record<string, string> = {
-      Personal: '#9C27B0',
-      Work: '#2196F3',
-      Shopping: '#FF9800',
-      Health: '#4CAF50',
-      Ideas: '#E91E63',
+  // Walking past occurrences is not free, so only redo it when tasks change
+  const streaks = useMemo(() => new Map(tasks.map((t) => [t.id, computeStreaks(t)])), [tasks]);
+  const editingStreak = editingTask ? streaks.get(editingTask.id) : null;
+
+  // Only worked out while the insights screen is open
+  const insights = useMemo(() => {
+    if (!showInsightsModal) return null;
+    const now = new Date();
+    return {
+      perDay: completionsPerDay(tasks, 7, now),
+      perWeek: completionsPerWeek(tasks, 8, now),
+      weekdays: completionsByWeekday(tasks),
+      byCategory: completionRates(tasks, 'category', now),
+      byPriority: completionRates(tasks, 'priority', now),
+      punctuality: getPunctuality(tasks, now),
+      averageTime: averageTimeToComplete(tasks),
     };
-    return colors[category] || '#666';
+  }, [showInsightsModal, tasks]);
+
+  const renderBars = (bars: BarCount[]) => {
+    const max = Math.max(1, ...bars.map((b) => b.count));
+    return (
+      <View style={styles.barChart}>
+        {bars.map((bar) => (
+          <View key={bar.key} style={styles.barColumn}>
+            <Text style={styles.barCount}>{bar.count > 0 ? bar.count : ''}</Text>
+            <View style={[styles.bar, { height: Math.max((bar.count / max) * CHART_HEIGHT, 2) }]} />
+            <Text style={styles.barLabel}>{bar.label}</Text>
+          </View>
+        ))}
+      </View>
+    );
   };
 
-  const getScheduleLabel = (schedule?: Task['schedule']) => {
-    if (!schedule || schedule.type === 'none') return null;
-    const preset = SCHEDULE_PRESETS.find(p => p.id === schedule.type);
-    return preset?.label;
+  const renderRates = (rates: CompletionRate[], colorOf: (rate: CompletionRate) => string) =>
+    rates.map((rate) => (
+      <View key={rate.key} style={styles.rateRow}>
+        <Text style={styles.rateLabel} numberOfLines={1}>
+          {rate.label}
+        </Text>
+        <View style={styles.rateTrack}>
+          <View style={[styles.rateFill, { width: `${rate.rate * 100}%`, backgroundColor: colorOf(rate) }]} />
+        </View>
+        <Text style={styles.rateValue}>
+          {Math.round(rate.rate * 100)}% · {rate.done}/{rate.total}
+        </Text>
+      </View>
+    ));
+
+  // Misses since the last completion win over the running streak
+  const renderStreakBadge = (taskId: string) => {
+    const streak = streaks.get(taskId);
+    if (streak && streak.missedInARow > 0) {
+      return (
+        <View style={styles.missedBadge}>
+          <Text style={styles.missedText}>⚠️ {streak.missedInARow} missed</Text>
+        </View>
+      );
+    }
+    if (streak && streak.current > 0) {
+      return (
+        <View style={styles.streakBadge}>
+          <Text style={styles.streakText}>🔥 {streak.current}</Text>
+        </View>
+      );
+    }
+    return null;
   };
 
-  const stats = {
-    total: tasks.length,
-    completed: tasks.filter((t) => t.completed).length,
-    active: tasks.filter((t) => !t.completed).length,
+  const renderSubtaskBadge = (task: Task) => {
+    const progress = getSubtaskProgress(task);
+    if (!progress) return null;
+    const expanded = expandedTaskId === task.id;
+    return (
+      <TouchableOpacity
+        style={[styles.subtaskBadge, expanded && styles.tagBadgeActive]}
+        onPress={() => setExpandedTaskId(expanded ? null : task.id)}
+      >
+        <Text style={styles.subtaskBadgeText}>
+          ☑ {progress.done}/{progress.total} {expanded ? '▴' : '▾'}
+        </Text>
+      </TouchableOpacity>
+    );
   };
 
+  const renderTask = (task: Task) => (
+    <View key={task.id} style={[styles.taskItem, getDueStatus(task) === 'overdue' && styles.taskItemOverdue]}>
+      <TouchableOpacity
+        style={styles.taskCheck}
+        onPress={() => toggleTask(task.id)}
+      >
+        <View
+          style={[
+            styles.checkbox,
+            task.completed && styles.checkboxChecked,
+          ]}
+        >
+          {task.completed && <Text style={styles.checkmark}>✓</Text>}
+        </View>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.taskContent}
+        onPress={() => editTask(task)}
+      >
+        <Text
+          style={[
+            styles.taskText,
+            task.completed && styles.taskTextCompleted,
+          ]}
+        >
+          {task.text}
+        </Text>
+        <View style={styles.taskMeta}>
+          <View
+            style={[
+              styles.categoryBadge,
+              { backgroundColor: getCategoryColor(categories, task.category) + '30' },
+            ]}
+          >
+            <Text
+              style={[
+                styles.categoryText,
+                { color: getCategoryColor(categories, task.category) },
+              ]}
+            >
+              {findCategory(categories, task.category)?.icon} {task.category}
+            </Text>
+          </View>
+          <View
+            style={[
+              styles.priorityDot,
+              { backgroundColor: getPriorityColor(task.priority) },
+            ]}
+          />
+          {task.schedule && task.schedule.type !== 'none' && (
+            <View style={styles.scheduleBadge}>
+              <Text style={styles.scheduleText}>🔄 {getScheduleLabel(task.schedule)}</Text>
+            </View>
+          )}
+          {renderStreakBadge(task.id)}
+          {renderSubtaskBadge(task)}
+          {task.tags?.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.tagBadge, tagFilter.includes(tag) && styles.tagBadgeActive]}
+              onPress={() => toggleTagFilter(tag)}
+            >
+              <Text style={styles.tagText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+          {task.dueAt && (
+            <View style={[styles.dueBadge, getDueStatus(task) === 'overdue' && styles.dueBadgeOverdue]}>
+              <Text style={[styles.dueText, getDueStatus(task) === 'overdue' && styles.dueTextOverdue]}>
+                📅 {getDueLabel(task.dueAt)}
+              </Text>
+            </View>
+          )}
+        </View>
+        {expandedTaskId === task.id && task.subtasks?.map((subtask) => (
+          <TouchableOpacity
+            key={subtask.id}
+            style={styles.subtaskRow}
+            onPress={() => toggleTaskSubtask(task.id, subtask.id)}
+          >
+            <View style={[styles.subtaskCheck, subtask.done && styles.checkboxChecked]}>
+              {subtask.done && <Text style={styles.subtaskCheckmark}>✓</Text>}
+            </View>
+            <Text style={[styles.subtaskText, subtask.done && styles.taskTextCompleted]}>{subtask.text}</Text>
+          </TouchableOpacity>
+        ))}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => deleteTask(task.id)}
+      >
+        <Text style={styles.deleteText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Archived and trashed tasks can only be restored or removed; from the
+  // archive they go to the trash, from the trash for good
+  const renderShelvedTask = (task: Task) => (
+    <View key={task.id} style={styles.taskItem}>
+      <View style={styles.taskContent}>
+        <Text style={[styles.taskText, styles.taskTextCompleted]}>{task.text}</Text>
+        <View style={styles.taskMeta}>
+          <Text style={[styles.categoryText, { color: getCategoryColor(categories, task.category) }]}>
+            {findCategory(categories, task.category)?.icon} {task.category}
+          </Text>
+          {task.schedule && task.schedule.type !== 'none' && (
+            <View style={styles.scheduleBadge}>
+              <Text style={styles.scheduleText}>🔄 {getScheduleLabel(task.schedule)}</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.shelvedLabel}>
+          {filter === 'trash' ? getTrashLabel(task, settings.trashRetentionDays) : getArchiveLabel(task)}
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => (filter === 'trash' ? restoreTask(task.id) : unarchiveTask(task.id))}
+      >
+        <Text style={styles.restoreText}>↩</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => (filter === 'trash' ? confirmDeleteForever(task) : deleteTask(task.id))}
+      >
+        <Text style={styles.deleteText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const trashRetention = TRASH_RETENTION_OPTIONS.find((o) => o.days === settings.trashRetentionDays);
+  const archiveAfter = ARCHIVE_AFTER_OPTIONS.find((o) => o.days === settings.archiveAfterDays);
+
+  const stats = selectStats(allTasks);
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor="#1a1a2e" />
       
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.title}>✨ CleanTasks</Text>
-        <Text style={styles.subtitle}>Get things done</Text>
+        <View>
+          <Text style={styles.title}>✨ CleanTasks</Text>
+          <Text style={styles.subtitle}>Get things done</Text>
+        </View>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity onPress={() => setShowInsightsModal(true)} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>📊</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={openCategories} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>🏷</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowTransferModal(true)} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>⇅</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={openSettings} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>⚙</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
-          placeholder="Search tasks..."
+          placeholder="Search, e.g. cat:Work is:active due:<7d"
           placeholderTextColor="#666"
           value={searchQuery}
           onChangeText={setSearchQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
         />
         {searchQuery.length > 0 && (
           <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearSearch}>
@@ -379,6 +950,8 @@ export default function App() {
         )}
       </View>
 
+      {search.errors.length > 0 && <Text style={[styles.fieldError, styles.searchHint]}>{search.errors[0]}</Text>}
+
       {/* Stats */}
       <View style={styles.statsContainer}>
         <View style={[styles.statBox, { backgroundColor: '#1a1a2e' }]}>
@@ -397,7 +970,7 @@ export default function App() {
 
       {/* Filter Tabs */}
       <View style={styles.filterContainer}>
-        {(['all', 'active', 'completed'] as const).map((f) => (
+        {(['all', 'active', 'completed', 'archive', 'trash'] as const).map((f) => (
           <TouchableOpacity
             key={f}
             style={[styles.filterTab, filter === f && styles.filterTabActive]}
@@ -405,14 +978,72 @@ export default function App() {
           >
             <Text style={[styles.filterText, filter === f && styles.filterTextActive]}>
               {f.charAt(0).toUpperCase() + f.slice(1)}
+              {f === 'archive' && stats.archived > 0 && ` ${stats.archived}`}
+              {f === 'trash' && stats.trashed > 0 && ` ${stats.trashed}`}
             </Text>
           </TouchableOpacity>
         ))}
       </View>
 
+      {/* Due Filter */}
+      <View style={styles.dueFilterRow}>
+        {DUE_FILTERS.map((f) => (
+          <TouchableOpacity
+            key={f.id}
+            style={[styles.chip, dueFilter === f.id && styles.chipActive]}
+            onPress={() => setDueFilter(f.id)}
+          >
+            <Text style={[styles.chipText, dueFilter === f.id && styles.chipTextActive]}>{f.label}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={[styles.chip, styles.chipActive]} onPress={() => setShowViewModal(true)}>
+          <Text style={[styles.chipText, styles.chipTextActive]}>
+            ↓ {SORT_ORDERS.find((o) => o.id === settings.sortBy)?.label}
+            {settings.groupBy !== 'none' && ` · ▤ ${GROUP_OPTIONS.find((o) => o.id === settings.groupBy)?.label}`}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Tag Filter; a tag no task has any more stays until it is cleared */}
+      {(allTags.length > 0 || tagFilter.length > 0) && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tagFilterScroll}>
+          <View style={styles.tagFilterRow}>
+            {[...tagFilter.filter((tag) => !allTags.includes(tag)), ...allTags].map((tag) => (
+              <TouchableOpacity
+                key={tag}
+                style={[styles.chip, tagFilter.includes(tag) && styles.chipActive]}
+                onPress={() => toggleTagFilter(tag)}
+              >
+                <Text style={[styles.chipText, tagFilter.includes(tag) && styles.chipTextActive]}>#{tag}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+
       {/* Task List */}
       <ScrollView style={styles.taskList} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
-        {filteredTasks.length === 0 ? (
+        {filteredTasks.length === 0 && filter === 'trash' && !searchQuery ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>🗑</Text>
+            <Text style={styles.emptyText}>Trash is empty</Text>
+            <Text style={styles.emptySubtext}>
+              {trashRetention?.days
+                ? `Deleted tasks stay here for ${trashRetention.label}`
+                : 'Deleted tasks stay here until you delete them for good'}
+            </Text>
+          </View>
+        ) : filteredTasks.length === 0 && filter === 'archive' && !searchQuery ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>🗄</Text>
+            <Text style={styles.emptyText}>Archive is empty</Text>
+            <Text style={styles.emptySubtext}>
+              {archiveAfter?.days
+                ? `Done one-off tasks move here after ${archiveAfter.label}`
+                : 'Turn on archiving in settings to tidy up done tasks'}
+            </Text>
+          </View>
+        ) : filteredTasks.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyEmoji}>📝</Text>
             <Text style={styles.emptyText}>
@@ -423,70 +1054,14 @@ export default function App() {
             </Text>
           </View>
         ) : (
-          filteredTasks.map((task) => (
-            <View key={task.id} style={styles.taskItem}>
-              <TouchableOpacity
-                style={styles.taskCheck}
-                onPress={() => toggleTask(task.id)}
-              >
-                <View
-                  style={[
-                    styles.checkbox,
-                    task.completed && styles.checkboxChecked,
-                  ]}
-                >
-                  {task.completed && <Text style={styles.checkmark}>✓</Text>}
-                </View>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={styles.taskContent}
-                onPress={() => editTask(task)}
-              >
-                <Text
-                  style={[
-                    styles.taskText,
-                    task.completed && styles.taskTextCompleted,
-                  ]}
-                >
-                  {task.text}
+          sections.map((section) => (
+            <View key={section.key}>
+              {section.title && (
+                <Text style={styles.sectionHeader}>
+                  {section.title} · {section.tasks.length}
                 </Text>
-                <View style={styles.taskMeta}>
-                  <View
-                    style={[
-                      styles.categoryBadge,
-                      { backgroundColor: getCategoryColor(task.category) + '30' },
-                    ]}
-                  >
-                    <Text
-                      style={[
-                        styles.categoryText,
-                        { color: getCategoryColor(task.category) },
-                      ]}
-                    >
-                      {task.category}
-                    </Text>
-                  </View>
-                  <View
-                    style={[
-                      styles.priorityDot,
-                      { backgroundColor: getPriorityColor(task.priority) },
-                    ]}
-                  />
-                  {task.schedule && task.schedule.type !== 'none' && (
-                    <View style={styles.scheduleBadge}>
-                      <Text style={styles.scheduleText}>🔄 {getScheduleLabel(task.schedule)}</Text>
-                    </View>
-                  )}
-                </View>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={styles.deleteButton}
-                onPress={() => deleteTask(task.id)}
-              >
-                <Text style={styles.deleteText}>✕</Text>
-              </TouchableOpacity>
+              )}
+              {section.tasks.map(filter === 'archive' || filter === 'trash' ? renderShelvedTask : renderTask)}
             </View>
           ))
         )}
@@ -500,6 +1075,16 @@ export default function App() {
         </TouchableOpacity>
       )}
 
+      {/* Undo Snackbar */}
+      {snackbar && (
+        <View style={styles.snackbar}>
+          <Text style={styles.snackbarText}>{snackbar.message}</Text>
+          <TouchableOpacity onPress={snackbar.action === 'undo' ? undo : redo}>
+            <Text style={styles.snackbarAction}>{snackbar.action === 'undo' ? 'Undo' : 'Redo'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* FAB */}
       <TouchableOpacity
         style={styles.fab}
@@ -507,8 +1092,22 @@ export default function App() {
           setEditingTask(null);
           setNewTask('');
           setSelectedPriority('medium');
-          setSelectedCategory('Personal');
+          setSelectedCategory(getPickerCategories(categories)[0]?.name ?? DEFAULT_CATEGORIES[0].name);
+          setTaskTags([]);
+          setTagInput('');
+          setSubtasks([]);
+          setSubtaskInput('');
+          setAutoCompleteOn(true);
           setScheduleType('none');
+          setScheduleRule('');
+          setMonthlyRule('day_of_month');
+          setDayOfMonth('1');
+          setWeekOfMonth(1);
+          setMonthlyWeekday(1);
+          setScheduleTimeZone(getDeviceTimeZone());
+          setRemindersOn(true);
+          setDueDate('');
+          setDueTime('');
           setShowAddModal(true);
         }}
       >
@@ -556,7 +1155,7 @@ export default function App() {
                           borderColor: p.color,
                         },
                       ]}
-                      onPress={() => setSelectedPriority(p.id as any)}
+                      onPress={() => setSelectedPriority(p.id)}
                     >
                       <View
                         style={[styles.priorityDotLarge, { backgroundColor: p.color }]}
@@ -576,36 +1175,180 @@ export default function App() {
                 <Text style={styles.inputLabel}>Category</Text>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
                   <View style={styles.categoryContainer}>
-                    {CATEGORIES.map((cat) => (
+                    {getPickerCategories(categories, editingTask?.category).map((cat) => (
                       <TouchableOpacity
-                        key={cat}
+                        key={cat.id}
                         style={[
                           styles.categoryOption,
-                          selectedCategory === cat && {
-                            backgroundColor: getCategoryColor(cat) + '30',
-                            borderColor: getCategoryColor(cat),
+                          selectedCategory === cat.name && {
+                            backgroundColor: cat.color + '30',
+                            borderColor: cat.color,
                           },
                         ]}
-                        onPress={() => setSelectedCategory(cat)}
+                        onPress={() => setSelectedCategory(cat.name)}
                       >
                         <Text
                           style={[
                             styles.categoryTextOption,
-                            selectedCategory === cat && { color: getCategoryColor(cat) },
+                            selectedCategory === cat.name && { color: cat.color },
                           ]}
                         >
-                          {cat}
+                          {cat.icon} {cat.name}
                         </Text>
                       </TouchableOpacity>
                     ))}
                   </View>
                 </ScrollView>
 
-                <Text style={styles.inputLabel}>Auto-Reset Schedule</Text>
-                <View style={styles.scheduleContainer}>
-                  {SCHEDULE_PRESETS.map((preset) => (
-                    <TouchableOpacity
-                      key={preset.id}
+                <Text style={styles.inputLabel}>Tags</Text>
+                <View style={styles.ruleContainer}>
+                  {taskTags.length > 0 && (
+                    <View style={styles.chipRow}>
+                      {taskTags.map((tag) => (
+                        <TouchableOpacity
+                          key={tag}
+                          style={[styles.chip, styles.chipActive]}
+                          onPress={() => setTaskTags(removeTag(taskTags, tag))}
+                        >
+                          <Text style={[styles.chipText, styles.chipTextActive]}>#{tag} ✕</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                  <TextInput
+                    style={styles.ruleInput}
+                    placeholder="e.g. kitchen, alex, quick"
+                    placeholderTextColor="#666"
+                    value={tagInput}
+                    onChangeText={changeTagInput}
+                    onSubmitEditing={() => changeTagInput(tagInput + ',')}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    blurOnSubmit={false}
+                  />
+                  {tagSuggestions.length > 0 && (
+                    <View style={[styles.chipRow, styles.tagSuggestions]}>
+                      {tagSuggestions.map((tag) => (
+                        <TouchableOpacity
+                          key={tag}
+                          style={styles.chip}
+                          onPress={() => {
+                            setTaskTags(addTag(taskTags, tag));
+                            setTagInput('');
+                          }}
+                        >
+                          <Text style={styles.chipText}>#{tag}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </View>
+
+                <Text style={styles.inputLabel}>Checklist</Text>
+                <View style={styles.ruleContainer}>
+                  {subtasks.map((subtask, i) => (
+                    <View key={subtask.id} style={styles.subtaskRow}>
+                      <TouchableOpacity
+                        style={[styles.subtaskCheck, subtask.done && styles.checkboxChecked]}
+                        onPress={() =>
+                          setSubtasks(subtasks.map((s) => (s.id === subtask.id ? { ...s, done: !s.done } : s)))
+                        }
+                      >
+                        {subtask.done && <Text style={styles.subtaskCheckmark}>✓</Text>}
+                      </TouchableOpacity>
+                      <Text style={[styles.subtaskText, subtask.done && styles.taskTextCompleted]}>{subtask.text}</Text>
+                      <TouchableOpacity
+                        style={styles.rowButton}
+                        onPress={() => setSubtasks(moveSubtask(subtasks, subtask.id, -1))}
+                        disabled={i === 0}
+                      >
+                        <Text style={[styles.rowButtonText, i === 0 && styles.rowButtonDisabled]}>↑</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.rowButton}
+                        onPress={() => setSubtasks(moveSubtask(subtasks, subtask.id, 1))}
+                        disabled={i === subtasks.length - 1}
+                      >
+                        <Text style={[styles.rowButtonText, i === subtasks.length - 1 && styles.rowButtonDisabled]}>↓</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.rowButton}
+                        onPress={() => setSubtasks(removeSubtask(subtasks, subtask.id))}
+                      >
+                        <Text style={styles.deleteText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                  <TextInput
+                    style={[styles.ruleInput, subtasks.length > 0 && styles.subtaskInput]}
+                    placeholder="Add a step, e.g. scrub the sink"
+                    placeholderTextColor="#666"
+                    value={subtaskInput}
+                    onChangeText={setSubtaskInput}
+                    onSubmitEditing={addDraftSubtask}
+                    blurOnSubmit={false}
+                  />
+                </View>
+
+                {subtasks.length > 0 && (
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchLabel}>
+                      <Text style={styles.inputLabel}>Auto-Complete</Text>
+                      <Text style={styles.switchHint}>Mark the task done when every step is ticked</Text>
+                    </View>
+                    <Switch
+                      value={autoCompleteOn}
+                      onValueChange={setAutoCompleteOn}
+                      trackColor={{ false: '#333', true: '#667eea' }}
+                    />
+                  </View>
+                )}
+
+                {scheduleType === 'none' && (
+                  <>
+                    <Text style={styles.inputLabel}>Due Date</Text>
+                    <View style={styles.chipRow}>
+                      {([['Today', 0], ['Tomorrow', 1], ['Next week', 7], ['None', null]] as const).map(([label, days]) => (
+                        <TouchableOpacity key={label} style={styles.chip} onPress={() => pickDueDate(days)}>
+                          <Text style={styles.chipText}>{label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <View style={styles.quietRow}>
+                      <View style={styles.dueDateField}>
+                        <TextInput
+                          style={[styles.ruleInput, dueError && styles.ruleInputInvalid]}
+                          placeholder="YYYY-MM-DD"
+                          placeholderTextColor="#666"
+                          value={dueDate}
+                          onChangeText={setDueDate}
+                          keyboardType="numbers-and-punctuation"
+                          maxLength={10}
+                        />
+                      </View>
+                      <View style={styles.quietField}>
+                        <TextInput
+                          style={[styles.ruleInput, dueError && styles.ruleInputInvalid]}
+                          placeholder="HH:MM"
+                          placeholderTextColor="#666"
+                          value={dueTime}
+                          onChangeText={setDueTime}
+                          keyboardType="numbers-and-punctuation"
+                          maxLength={5}
+                        />
+                      </View>
+                    </View>
+                    <Text style={[dueError ? styles.fieldError : styles.timeHint, styles.dueHint]}>
+                      {dueError ? 'Use a real date as YYYY-MM-DD and an optional HH:MM' : 'Time is optional; without one it is due by the end of the day'}
+                    </Text>
+                  </>
+                )}
+
+                <Text style={styles.inputLabel}>Auto-Reset Schedule</Text>
+                <View style={styles.scheduleContainer}>
+                  {SCHEDULE_PRESETS.map((preset) => (
+                    <TouchableOpacity
+                      key={preset.id}
                       style={[
                         styles.scheduleOption,
                         scheduleType === preset.id && styles.scheduleOptionActive,
@@ -623,39 +1366,619 @@ export default function App() {
                   ))}
                 </View>
 
+                {scheduleType === 'monthly' && (
+                  <>
+                    <Text style={styles.inputLabel}>Day of Month</Text>
+                    <View style={styles.chipRow}>
+                      {MONTHLY_RULES.map((rule) => (
+                        <TouchableOpacity
+                          key={rule.id}
+                          style={[styles.chip, monthlyRule === rule.id && styles.chipActive]}
+                          onPress={() => setMonthlyRule(rule.id)}
+                        >
+                          <Text style={[styles.chipText, monthlyRule === rule.id && styles.chipTextActive]}>
+                            {rule.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    {monthlyRule === 'day_of_month' && (
+                      <View style={styles.timeContainer}>
+                        <TextInput
+                          style={[styles.timeInput, dayOfMonthError && styles.timeInputInvalid]}
+                          placeholder="1"
+                          placeholderTextColor="#666"
+                          value={dayOfMonth}
+                          onChangeText={setDayOfMonth}
+                          keyboardType="number-pad"
+                          maxLength={2}
+                        />
+                        <Text style={dayOfMonthError ? styles.fieldError : styles.timeHint}>
+                          {dayOfMonthError ? 'Enter a day from 1 to 31' : 'Short months use their last day instead'}
+                        </Text>
+                      </View>
+                    )}
+
+                    {monthlyRule === 'nth_weekday' && (
+                      <>
+                        <View style={styles.chipRow}>
+                          {WEEKS_OF_MONTH.map((week) => (
+                            <TouchableOpacity
+                              key={week}
+                              style={[styles.chip, weekOfMonth === week && styles.chipActive]}
+                              onPress={() => setWeekOfMonth(week)}
+                            >
+                              <Text style={[styles.chipText, weekOfMonth === week && styles.chipTextActive]}>
+                                {formatOrdinal(week)}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        <View style={styles.chipRow}>
+                          {WEEKDAY_NAMES.map((name, weekday) => (
+                            <TouchableOpacity
+                              key={name}
+                              style={[styles.chip, monthlyWeekday === weekday && styles.chipActive]}
+                              onPress={() => setMonthlyWeekday(weekday)}
+                            >
+                              <Text style={[styles.chipText, monthlyWeekday === weekday && styles.chipTextActive]}>
+                                {name}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      </>
+                    )}
+                  </>
+                )}
+
+                {scheduleType === 'custom' && (
+                  <>
+                    <Text style={styles.inputLabel}>Pattern</Text>
+                    <View style={styles.ruleContainer}>
+                      <TextInput
+                        style={[styles.ruleInput, showRuleError && styles.ruleInputInvalid]}
+                        placeholder="FREQ=MONTHLY;BYDAY=1TU,3TU"
+                        placeholderTextColor="#666"
+                        value={scheduleRule}
+                        onChangeText={setScheduleRule}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                      />
+                      <Text style={showRuleError ? styles.fieldError : styles.timeHint}>
+                        {showRuleError
+                          ? ruleError
+                          : 'Cron (e.g., 0 9 * * 1-5) or RRULE (e.g., FREQ=MONTHLY;BYDAY=2FR)'}
+                      </Text>
+                    </View>
+                  </>
+                )}
+
                 {scheduleType !== 'none' && (
                   <>
                     <Text style={styles.inputLabel}>Reset Time</Text>
                     <View style={styles.timeContainer}>
                       <TextInput
-                        style={styles.timeInput}
+                        style={[styles.timeInput, timeError && styles.timeInputInvalid]}
                         placeholder="09:00"
                         placeholderTextColor="#666"
-                        value={scheduleTime}
-                        onChangeText={setScheduleTime}
+                        value={scheduleTime}
+                        onChangeText={setScheduleTime}
+                        keyboardType="numbers-and-punctuation"
+                        maxLength={5}
+                      />
+                      <Text style={timeError ? styles.fieldError : styles.timeHint}>
+                        {timeError ? 'Enter a time as HH:MM between 00:00 and 23:59' : '24-hour format (e.g., 09:00, 18:30)'}
+                      </Text>
+                    </View>
+
+                    <Text style={styles.inputLabel}>Time Zone</Text>
+                    <View style={styles.timeContainer}>
+                      <TextInput
+                        style={[styles.ruleInput, timeZoneError && styles.ruleInputInvalid]}
+                        placeholder={getDeviceTimeZone()}
+                        placeholderTextColor="#666"
+                        value={scheduleTimeZone}
+                        onChangeText={setScheduleTimeZone}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                      />
+                      <Text style={timeZoneError ? styles.fieldError : styles.timeHint}>
+                        {timeZoneError
+                          ? 'Enter an IANA time zone such as Europe/Berlin'
+                          : 'Resets follow the wall clock here, including daylight saving'}
+                      </Text>
+                    </View>
+                  </>
+                )}
+
+                {(scheduleType !== 'none' || dueDate.trim().length > 0) && (
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchLabel}>
+                      <Text style={styles.inputLabel}>Reminders</Text>
+                      <Text style={styles.switchHint}>Notify when due and again if still open</Text>
+                    </View>
+                    <Switch
+                      value={remindersOn}
+                      onValueChange={setRemindersOn}
+                      trackColor={{ false: '#333', true: '#667eea' }}
+                    />
+                  </View>
+                )}
+
+                {editingTask && !editingTask.completed && (
+                  <>
+                    <Text style={styles.inputLabel}>Completion Note</Text>
+                    <View style={styles.ruleContainer}>
+                      <TextInput
+                        style={styles.ruleInput}
+                        placeholder="Optional, e.g. used the new cleaner"
+                        placeholderTextColor="#666"
+                        value={completionNote}
+                        onChangeText={setCompletionNote}
+                      />
+                      <TouchableOpacity style={styles.completeButton} onPress={completeWithNote}>
+                        <Text style={styles.completeButtonText}>✓ Mark Done</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+
+                {editingTask?.history && editingTask.history.length > 0 && (
+                  <>
+                    <Text style={styles.inputLabel}>History</Text>
+                    <View style={styles.historyContainer}>
+                      {editingStreak && (
+                        <Text style={styles.historyText}>
+                          🔥 {editingStreak.current} in a row · best {editingStreak.best} · {editingStreak.missed} missed
+                        </Text>
+                      )}
+                      {[...editingTask.history].reverse().slice(0, HISTORY_PREVIEW).map((entry, i) => (
+                        <View key={`${entry.at}-${i}`} style={styles.historyRow}>
+                          <Text style={styles.historyText}>
+                            {entry.type === 'completed' ? '✓' : '↺'} {new Date(entry.at).toLocaleString()}
+                          </Text>
+                          {entry.note && <Text style={styles.historyNote}>{entry.note}</Text>}
+                        </View>
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={styles.cancelButton}
+                    onPress={closeModal}
+                  >
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+                    onPress={editingTask ? updateTask : addTask}
+                    disabled={!canSave}
+                  >
+                    <Text style={styles.saveButtonText}>
+                      {editingTask ? 'Update' : 'Add Task'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Export / Import Modal */}
+      <Modal visible={showTransferModal} animationType="slide" transparent>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalKeyboardView}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>Export / Import</Text>
+                <TouchableOpacity onPress={() => setShowTransferModal(false)} style={styles.closeButton}>
+                  <Text style={styles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                <Text style={styles.inputLabel}>Export {tasks.length} tasks</Text>
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity style={styles.cancelButton} onPress={() => exportTasks('json')}>
+                    <Text style={styles.cancelButtonText}>JSON</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.cancelButton} onPress={() => exportTasks('csv')}>
+                    <Text style={styles.cancelButtonText}>CSV</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.cancelButton} onPress={() => exportTasks('ics')}>
+                    <Text style={styles.cancelButtonText}>Calendar</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={[styles.inputLabel, styles.transferSection]}>Import</Text>
+                <TextInput
+                  style={[styles.input, styles.importInput]}
+                  placeholder="Paste a JSON, CSV or iCalendar export"
+                  placeholderTextColor="#666"
+                  value={importText}
+                  onChangeText={setImportText}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity
+                    style={[styles.cancelButton, !importText.trim() && styles.saveButtonDisabled]}
+                    onPress={() => importTasks('replace')}
+                    disabled={!importText.trim()}
+                  >
+                    <Text style={styles.cancelButtonText}>Replace</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.saveButton, !importText.trim() && styles.saveButtonDisabled]}
+                    onPress={() => importTasks('merge')}
+                    disabled={!importText.trim()}
+                  >
+                    <Text style={styles.saveButtonText}>Merge</Text>
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Sort and Group Modal */}
+      <Modal visible={showViewModal} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Sort and Group</Text>
+              <TouchableOpacity onPress={() => setShowViewModal(false)} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.inputLabel}>Sort by</Text>
+            <View style={styles.chipRow}>
+              {SORT_ORDERS.map((o) => (
+                <TouchableOpacity
+                  key={o.id}
+                  style={[styles.chip, settings.sortBy === o.id && styles.chipActive]}
+                  onPress={() => changeView({ sortBy: o.id })}
+                >
+                  <Text style={[styles.chipText, settings.sortBy === o.id && styles.chipTextActive]}>{o.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.inputLabel}>Group by</Text>
+            <View style={styles.chipRow}>
+              {GROUP_OPTIONS.map((o) => (
+                <TouchableOpacity
+                  key={o.id}
+                  style={[styles.chip, settings.groupBy === o.id && styles.chipActive]}
+                  onPress={() => changeView({ groupBy: o.id })}
+                >
+                  <Text style={[styles.chipText, settings.groupBy === o.id && styles.chipTextActive]}>{o.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.timeHint}>"When" groups by the due date or next scheduled occurrence</Text>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Insights Modal */}
+      <Modal visible={showInsightsModal} animationType="slide" transparent>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Insights</Text>
+              <TouchableOpacity onPress={() => setShowInsightsModal(false)} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {insights && (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <View style={[styles.statsContainer, { paddingHorizontal: 0 }]}>
+                  <View style={[styles.statBox, { backgroundColor: '#1a1a2e' }]}>
+                    <Text style={[styles.statNumber, { color: '#4CAF50' }]}>
+                      {insights.punctuality.rate === null ? '–' : `${Math.round(insights.punctuality.rate * 100)}%`}
+                    </Text>
+                    <Text style={styles.statLabel}>On time</Text>
+                  </View>
+                  <View style={[styles.statBox, { backgroundColor: '#1a1a2e' }]}>
+                    <Text style={[styles.statNumber, { color: '#2196F3' }]}>
+                      {insights.averageTime === null ? '–' : formatDuration(insights.averageTime)}
+                    </Text>
+                    <Text style={styles.statLabel}>Avg. to finish</Text>
+                  </View>
+                </View>
+                <Text style={styles.timeHint}>
+                  {insights.punctuality.onTime} on time · {insights.punctuality.late} late ·{' '}
+                  {insights.punctuality.missed} missed, counting each occurrence of a recurring task
+                </Text>
+
+                <Text style={styles.sectionHeader}>Last 7 days</Text>
+                {renderBars(insights.perDay)}
+
+                <Text style={styles.sectionHeader}>Last 8 weeks</Text>
+                {renderBars(insights.perWeek)}
+
+                <Text style={styles.sectionHeader}>Busiest weekdays</Text>
+                {renderBars(insights.weekdays)}
+
+                <Text style={styles.sectionHeader}>Done by category</Text>
+                {renderRates(insights.byCategory, (rate) => getCategoryColor(categories, rate.label))}
+
+                <Text style={styles.sectionHeader}>Done by priority</Text>
+                {renderRates(insights.byPriority, (rate) => getPriorityColor(rate.key))}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Categories Modal */}
+      <Modal visible={showCategoriesModal} animationType="slide" transparent>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalKeyboardView}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>Categories</Text>
+                <TouchableOpacity onPress={() => setShowCategoriesModal(false)} style={styles.closeButton}>
+                  <Text style={styles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {categories.map((category, i) => (
+                  <View key={category.id} style={styles.categoryRow}>
+                    <TouchableOpacity style={styles.categoryRowName} onPress={() => startEditCategory(category)}>
+                      <Text style={[styles.categoryRowText, { color: category.color }, category.archived && styles.categoryRowArchived]}>
+                        {category.icon} {category.name}
+                      </Text>
+                      <Text style={styles.switchHint}>
+                        {countTasksInCategory(tasks, category.name)} tasks{category.archived ? ' · archived' : ''}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.rowButton}
+                      onPress={() => applyCategories(moveCategory(categories, category.id, -1))}
+                      disabled={i === 0}
+                    >
+                      <Text style={[styles.rowButtonText, i === 0 && styles.rowButtonDisabled]}>↑</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.rowButton}
+                      onPress={() => applyCategories(moveCategory(categories, category.id, 1))}
+                      disabled={i === categories.length - 1}
+                    >
+                      <Text style={[styles.rowButtonText, i === categories.length - 1 && styles.rowButtonDisabled]}>↓</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.rowButton}
+                      onPress={() => toggleCategoryArchived(category)}
+                      disabled={!category.archived && activeCategoryCount === 1}
+                    >
+                      <Text style={[styles.rowButtonText, !category.archived && activeCategoryCount === 1 && styles.rowButtonDisabled]}>
+                        {category.archived ? '↩' : '🗄'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.rowButton}
+                      onPress={() => startDeleteCategory(category)}
+                      disabled={categories.length === 1}
+                    >
+                      <Text style={[styles.deleteText, categories.length === 1 && styles.rowButtonDisabled]}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                {deletingCategory ? (
+                  <>
+                    <Text style={[styles.inputLabel, styles.transferSection]}>
+                      Delete {deletingCategory.name}
+                    </Text>
+                    <Text style={styles.timeHint}>
+                      Move its {countTasksInCategory(tasks, deletingCategory.name)} tasks to:
+                    </Text>
+                    <View style={[styles.chipRow, styles.categoryReassign]}>
+                      {categories.filter((c) => c.id !== deletingCategory.id).map((c) => (
+                        <TouchableOpacity
+                          key={c.id}
+                          style={[styles.chip, reassignTo === c.id && styles.chipActive]}
+                          onPress={() => setReassignTo(c.id)}
+                        >
+                          <Text style={[styles.chipText, reassignTo === c.id && styles.chipTextActive]}>
+                            {c.icon} {c.name}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <View style={styles.modalButtons}>
+                      <TouchableOpacity style={styles.cancelButton} onPress={resetCategoryForm}>
+                        <Text style={styles.cancelButtonText}>Cancel</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.saveButton, styles.deleteCategoryButton, !reassignTo && styles.saveButtonDisabled]}
+                        onPress={confirmDeleteCategory}
+                        disabled={!reassignTo}
+                      >
+                        <Text style={styles.saveButtonText}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                ) : (
+                  <>
+                    <Text style={[styles.inputLabel, styles.transferSection]}>
+                      {categoryEditId ? 'Edit Category' : 'New Category'}
+                    </Text>
+                    <TextInput
+                      style={[styles.ruleInput, !!categoryNameError && styles.ruleInputInvalid]}
+                      placeholder="e.g. Kitchen"
+                      placeholderTextColor="#666"
+                      value={categoryName}
+                      onChangeText={setCategoryName}
+                    />
+                    {categoryNameError && <Text style={styles.fieldError}>{categoryNameError}</Text>}
+
+                    <Text style={[styles.inputLabel, styles.categoryFormLabel]}>Color</Text>
+                    <View style={styles.chipRow}>
+                      {CATEGORY_COLORS.map((color) => (
+                        <TouchableOpacity
+                          key={color}
+                          style={[styles.colorSwatch, { backgroundColor: color }, categoryColor === color && styles.colorSwatchActive]}
+                          onPress={() => setCategoryColor(color)}
+                        />
+                      ))}
+                    </View>
+
+                    <Text style={styles.inputLabel}>Icon</Text>
+                    <View style={styles.chipRow}>
+                      {CATEGORY_ICONS.map((icon) => (
+                        <TouchableOpacity
+                          key={icon}
+                          style={[styles.chip, categoryIcon === icon && styles.chipActive]}
+                          onPress={() => setCategoryIcon(icon)}
+                        >
+                          <Text>{icon}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <View style={styles.modalButtons}>
+                      {categoryEditId && (
+                        <TouchableOpacity style={styles.cancelButton} onPress={resetCategoryForm}>
+                          <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={[styles.saveButton, (!categoryName.trim() || !!categoryNameError) && styles.saveButtonDisabled]}
+                        onPress={saveCategory}
+                        disabled={!categoryName.trim() || !!categoryNameError}
+                      >
+                        <Text style={styles.saveButtonText}>{categoryEditId ? 'Save' : 'Add Category'}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Settings Modal */}
+      <Modal visible={showSettingsModal} animationType="slide" transparent>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalKeyboardView}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>Settings</Text>
+                <TouchableOpacity onPress={() => setShowSettingsModal(false)} style={styles.closeButton}>
+                  <Text style={styles.closeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                <View style={styles.switchRow}>
+                  <View style={styles.switchLabel}>
+                    <Text style={styles.inputLabel}>Quiet Hours</Text>
+                    <Text style={styles.switchHint}>Reminders wait until quiet hours end</Text>
+                  </View>
+                  <Switch
+                    value={quietEnabled}
+                    onValueChange={setQuietEnabled}
+                    trackColor={{ false: '#333', true: '#667eea' }}
+                  />
+                </View>
+
+                {quietEnabled && (
+                  <View style={styles.quietRow}>
+                    <View style={styles.quietField}>
+                      <Text style={styles.inputLabel}>From</Text>
+                      <TextInput
+                        style={[styles.timeInput, quietStartError && styles.timeInputInvalid]}
+                        value={quietStart}
+                        onChangeText={setQuietStart}
+                        placeholder="22:00"
+                        placeholderTextColor="#666"
+                        keyboardType="numbers-and-punctuation"
+                        maxLength={5}
+                      />
+                    </View>
+                    <View style={styles.quietField}>
+                      <Text style={styles.inputLabel}>Until</Text>
+                      <TextInput
+                        style={[styles.timeInput, quietEndError && styles.timeInputInvalid]}
+                        value={quietEnd}
+                        onChangeText={setQuietEnd}
+                        placeholder="07:00"
+                        placeholderTextColor="#666"
                         keyboardType="numbers-and-punctuation"
                         maxLength={5}
                       />
-                      <Text style={styles.timeHint}>24-hour format (e.g., 09:00, 18:30)</Text>
                     </View>
-                  </>
+                  </View>
                 )}
+                {quietEnabled && (quietStartError || quietEndError) && (
+                  <Text style={styles.fieldError}>Use 24-hour HH:MM, e.g. 22:00</Text>
+                )}
+
+                <Text style={styles.inputLabel}>Archive Done Tasks After</Text>
+                <View style={styles.chipRow}>
+                  {ARCHIVE_AFTER_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option.days}
+                      style={[styles.chip, archiveDays === option.days && styles.chipActive]}
+                      onPress={() => setArchiveDays(option.days)}
+                    >
+                      <Text style={[styles.chipText, archiveDays === option.days && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.switchHint}>Recurring tasks stay in the list</Text>
+
+                <Text style={styles.inputLabel}>Keep Deleted Tasks</Text>
+                <View style={styles.chipRow}>
+                  {TRASH_RETENTION_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option.days}
+                      style={[styles.chip, trashDays === option.days && styles.chipActive]}
+                      onPress={() => setTrashDays(option.days)}
+                    >
+                      <Text style={[styles.chipText, trashDays === option.days && styles.chipTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.switchHint}>Tasks in the trash are deleted for good after this long</Text>
 
                 <View style={styles.modalButtons}>
-                  <TouchableOpacity
-                    style={styles.cancelButton}
-                    onPress={closeModal}
-                  >
+                  <TouchableOpacity style={styles.cancelButton} onPress={() => setShowSettingsModal(false)}>
                     <Text style={styles.cancelButtonText}>Cancel</Text>
                   </TouchableOpacity>
                   <TouchableOpacity
-                    style={[styles.saveButton, !newTask.trim() && styles.saveButtonDisabled]}
-                    onPress={editingTask ? updateTask : addTask}
-                    disabled={!newTask.trim()}
+                    style={[styles.saveButton, (quietStartError || quietEndError) && styles.saveButtonDisabled]}
+                    onPress={applySettings}
+                    disabled={quietStartError || quietEndError}
                   >
-                    <Text style={styles.saveButtonText}>
-                      {editingTask ? 'Update' : 'Add Task'}
-                    </Text>
+                    <Text style={styles.saveButtonText}>Save</Text>
                   </TouchableOpacity>
                 </View>
               </ScrollView>
@@ -675,6 +1998,22 @@ const styles = StyleSheet.create({
   header: {
     padding: 20,
     paddingTop: 30,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  headerButton: {
+    padding: 10,
+    backgroundColor: '#1a1a2e',
+    borderRadius: 20,
+  },
+  headerButtonText: {
+    color: '#fff',
+    fontSize: 18,
   },
   title: {
     fontSize: 32,
@@ -701,6 +2040,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#fff',
   },
+  searchHint: {
+    marginTop: -8,
+    marginBottom: 12,
+    marginHorizontal: 20,
+  },
   clearSearch: {
     padding: 8,
   },
@@ -752,6 +2096,13 @@ const styles = StyleSheet.create({
   filterTextActive: {
     color: '#fff',
   },
+  dueFilterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 20,
+    marginTop: 12,
+    gap: 8,
+  },
   taskList: {
     flex: 1,
     paddingHorizontal: 20,
@@ -783,6 +2134,10 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 12,
   },
+  taskItemOverdue: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#F44336',
+  },
   taskCheck: {
     marginRight: 12,
   },
@@ -848,6 +2203,45 @@ const styles = StyleSheet.create({
     color: '#667eea',
     fontWeight: '600',
   },
+  streakBadge: {
+    backgroundColor: '#FF980030',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  streakText: {
+    fontSize: 11,
+    color: '#FF9800',
+    fontWeight: '600',
+  },
+  missedBadge: {
+    backgroundColor: '#F4433630',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  missedText: {
+    fontSize: 11,
+    color: '#F44336',
+    fontWeight: '600',
+  },
+  dueBadge: {
+    backgroundColor: '#2196F330',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  dueBadgeOverdue: {
+    backgroundColor: '#F4433630',
+  },
+  dueText: {
+    fontSize: 11,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  dueTextOverdue: {
+    color: '#F44336',
+  },
   deleteButton: {
     padding: 8,
   },
@@ -855,6 +2249,15 @@ const styles = StyleSheet.create({
     color: '#666',
     fontSize: 18,
   },
+  restoreText: {
+    color: '#667eea',
+    fontSize: 18,
+  },
+  shelvedLabel: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 6,
+  },
   dismissKeyboard: {
     position: 'absolute',
     bottom: 100,
@@ -1013,6 +2416,52 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#333',
+  },
+  chipActive: {
+    borderColor: '#667eea',
+    backgroundColor: '#667eea20',
+  },
+  chipText: {
+    color: '#666',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#667eea',
+  },
+  ruleContainer: {
+    marginBottom: 20,
+  },
+  ruleInput: {
+    backgroundColor: '#0f0f1a',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 15,
+    color: '#fff',
+    borderWidth: 2,
+    borderColor: '#0f0f1a',
+  },
+  ruleInputInvalid: {
+    borderColor: '#F44336',
+  },
+  fieldError: {
+    color: '#F44336',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
   timeContainer: {
     marginBottom: 20,
   },
@@ -1024,6 +2473,11 @@ const styles = StyleSheet.create({
     color: '#fff',
     textAlign: 'center',
     fontWeight: 'bold',
+    borderWidth: 2,
+    borderColor: '#0f0f1a',
+  },
+  timeInputInvalid: {
+    borderColor: '#F44336',
   },
   timeHint: {
     color: '#666',
@@ -1031,6 +2485,273 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  completeButton: {
+    marginTop: 10,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#4CAF5030',
+    alignItems: 'center',
+  },
+  completeButtonText: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  historyContainer: {
+    backgroundColor: '#0f0f1a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 20,
+    gap: 8,
+  },
+  historyRow: {
+    gap: 2,
+  },
+  historyText: {
+    color: '#999',
+    fontSize: 13,
+  },
+  historyNote: {
+    color: '#666',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  switchHint: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: -8,
+  },
+  quietRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  quietField: {
+    flex: 1,
+  },
+  dueDateField: {
+    flex: 2,
+  },
+  dueHint: {
+    marginTop: 0,
+    marginBottom: 20,
+  },
+  transferSection: {
+    marginTop: 24,
+  },
+  subtaskBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#4CAF5030',
+  },
+  subtaskBadgeText: {
+    color: '#4CAF50',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  subtaskCheck: {
+    width: 20,
+    height: 20,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  subtaskCheckmark: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  subtaskText: {
+    flex: 1,
+    color: '#ccc',
+    fontSize: 14,
+  },
+  subtaskInput: {
+    marginTop: 8,
+  },
+  snackbar: {
+    position: 'absolute',
+    left: 20,
+    right: 100,
+    bottom: 40,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  snackbarText: {
+    color: '#fff',
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  snackbarAction: {
+    color: '#667eea',
+    fontSize: 14,
+    fontWeight: '700',
+    marginLeft: 16,
+  },
+  barChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    marginBottom: 16,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bar: {
+    alignSelf: 'stretch',
+    backgroundColor: '#667eea',
+    borderRadius: 4,
+  },
+  barCount: {
+    color: '#888',
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  barLabel: {
+    color: '#666',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  rateLabel: {
+    color: '#fff',
+    fontSize: 13,
+    width: 90,
+  },
+  rateTrack: {
+    flex: 1,
+    height: 8,
+    backgroundColor: '#1a1a2e',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  rateFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  rateValue: {
+    color: '#888',
+    fontSize: 12,
+    minWidth: 72,
+    textAlign: 'right',
+  },
+  sectionHeader: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  tagFilterScroll: {
+    flexGrow: 0,
+    marginTop: 12,
+  },
+  tagFilterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  tagBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#ffffff15',
+  },
+  tagBadgeActive: {
+    backgroundColor: '#667eea40',
+  },
+  tagText: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+  tagSuggestions: {
+    marginTop: 10,
+    marginBottom: 0,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  categoryRowName: {
+    flex: 1,
+  },
+  categoryRowText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  categoryRowArchived: {
+    opacity: 0.4,
+  },
+  // Small icon buttons at the end of a list row
+  rowButton: {
+    padding: 8,
+  },
+  rowButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  rowButtonDisabled: {
+    opacity: 0.4,
+  },
+  categoryFormLabel: {
+    marginTop: 16,
+  },
+  categoryReassign: {
+    marginTop: 12,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  colorSwatchActive: {
+    borderColor: '#fff',
+  },
+  deleteCategoryButton: {
+    backgroundColor: '#F44336',
+  },
+  importInput: {
+    minHeight: 140,
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
   modalButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,95 @@
+/**
+ * CleanTasks Archive Tests
+ * Tests for archiving done one-off tasks and bringing them back
+ */
+
+import { Task } from '../src/types';
+import { archiveCompletedTasks, getArchiveLabel, getNextArchiveTime, unarchiveTask } from '../src/utils/archive';
+import { completeTask } from '../src/utils/history';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const archivedIds = (tasks: Task[]) => tasks.filter(t => t.archivedAt).map(t => t.id);
+
+describe('archiveCompletedTasks', () => {
+  it('should archive one-off tasks done long enough ago', () => {
+    const tasks = [
+      completeTask(createTask({ id: 'old' }), daysAgo(8)),
+      completeTask(createTask({ id: 'recent' }), daysAgo(6)),
+      createTask({ id: 'open' }),
+    ];
+    const archived = archiveCompletedTasks(tasks, 7, NOW);
+
+    expect(archivedIds(archived)).toEqual(['old']);
+    expect(archived[0].archivedAt).toBe(NOW.toISOString());
+    expect(archived[1]).toBe(tasks[1]);
+  });
+
+  it('should never archive recurring or trashed tasks', () => {
+    const tasks = [
+      completeTask(createTask({ id: 'daily', schedule: { type: 'daily', time: '09:00' } }), daysAgo(30)),
+      { ...completeTask(createTask({ id: 'trashed' }), daysAgo(30)), deletedAt: daysAgo(1).toISOString() },
+    ];
+
+    expect(archiveCompletedTasks(tasks, 7, NOW)).toBe(tasks);
+  });
+
+  it('should fall back to the creation time for tasks done before the history log', () => {
+    const tasks = [createTask({ completed: true })];
+
+    expect(archivedIds(archiveCompletedTasks(tasks, 30, NOW))).toEqual(['1']);
+  });
+
+  it('should leave everything when archiving is off', () => {
+    const tasks = [completeTask(createTask(), daysAgo(365))];
+
+    expect(archiveCompletedTasks(tasks, 0, NOW)).toBe(tasks);
+  });
+
+  it('should know when the next task is due to be archived', () => {
+    const tasks = [
+      completeTask(createTask({ id: 'later' }), daysAgo(1)),
+      completeTask(createTask({ id: 'soon' }), daysAgo(6)),
+      completeTask(createTask({ id: 'daily', schedule: { type: 'daily', time: '09:00' } }), daysAgo(30)),
+      createTask({ id: 'open' }),
+    ];
+    const next = getNextArchiveTime(tasks, 7)!;
+
+    expect(next).toEqual(daysAgo(-1));
+    expect(archiveCompletedTasks(tasks, 7, new Date(next.getTime() - 1))).toBe(tasks);
+    expect(archivedIds(archiveCompletedTasks(tasks, 7, next))).toEqual(['soon']);
+    expect(getNextArchiveTime(tasks, 0)).toBeNull();
+  });
+});
+
+describe('unarchiveTask', () => {
+  it('should reopen the task', () => {
+    const [archived] = archiveCompletedTasks([completeTask(createTask(), daysAgo(10))], 7, NOW);
+    const restored = unarchiveTask(archived, NOW);
+
+    expect(restored.archivedAt).toBeUndefined();
+    expect(restored.completed).toBe(false);
+    expect(restored.history?.map(e => e.type)).toEqual(['completed', 'uncompleted']);
+    expect(unarchiveTask(restored, NOW)).toBe(restored);
+  });
+});
+
+describe('getArchiveLabel', () => {
+  it('should say when the task was done', () => {
+    expect(getArchiveLabel(completeTask(createTask(), daysAgo(0)), NOW)).toBe('Completed today');
+    expect(getArchiveLabel(completeTask(createTask(), daysAgo(1)), NOW)).toBe('Completed yesterday');
+    expect(getArchiveLabel(completeTask(createTask(), daysAgo(12)), NOW)).toBe('Completed 12 days ago');
+  });
+});
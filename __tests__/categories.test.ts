@@ -0,0 +1,114 @@
+/**
+ * CleanTasks Category Tests
+ * Tests for managing categories and carrying changes over to tasks
+ */
+
+import { Task } from '../src/types';
+import {
+  DEFAULT_CATEGORIES,
+  FALLBACK_COLOR,
+  deleteCategory,
+  getCategoryColor,
+  getPickerCategories,
+  moveCategory,
+  normalizeCategories,
+  updateCategory,
+  validateCategoryName,
+  withTaskCategories,
+} from '../src/utils/categories';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const TASKS = [
+  createTask({ id: '1', category: 'Work' }),
+  createTask({ id: '2', category: 'Personal' }),
+  createTask({ id: '3', category: 'work' }),
+];
+
+describe('Category names', () => {
+  it('should reject empty, overlong and repeated names', () => {
+    expect(validateCategoryName(DEFAULT_CATEGORIES, 'Kitchen')).toBeNull();
+    expect(validateCategoryName(DEFAULT_CATEGORIES, '  ')).toBe('Enter a name');
+    expect(validateCategoryName(DEFAULT_CATEGORIES, 'x'.repeat(31))).toMatch('under 31');
+    expect(validateCategoryName(DEFAULT_CATEGORIES, ' work ')).toBe('"work" already exists');
+  });
+
+  it('should allow a category to keep its own name', () => {
+    expect(validateCategoryName(DEFAULT_CATEGORIES, 'WORK', 'work')).toBeNull();
+  });
+});
+
+describe('normalizeCategories', () => {
+  it('should fall back to the defaults', () => {
+    expect(normalizeCategories(undefined)).toBe(DEFAULT_CATEGORIES);
+    expect(normalizeCategories([{ name: 'No id' }])).toBe(DEFAULT_CATEGORIES);
+  });
+
+  it('should keep valid entries and repair their fields', () => {
+    expect(
+      normalizeCategories([
+        { id: 'k', name: ' Kitchen ', color: '#123456', icon: '🍳', archived: true },
+        { id: 'g', name: 'Garden', color: 'green' },
+        { id: 'k', name: 'Again' },
+        { id: 'x', name: 'kitchen' },
+      ])
+    ).toEqual([
+      { id: 'k', name: 'Kitchen', color: '#123456', icon: '🍳', archived: true },
+      { id: 'g', name: 'Garden', color: FALLBACK_COLOR, icon: '👤' },
+    ]);
+  });
+});
+
+describe('Managing categories', () => {
+  it('should carry a rename over to every task in the category', () => {
+    const result = updateCategory(DEFAULT_CATEGORIES, TASKS, 'work', { name: ' Office ', color: '#000000' });
+
+    expect(result.categories[1]).toEqual({ id: 'work', name: 'Office', color: '#000000', icon: '💼' });
+    expect(result.tasks.map(t => t.category)).toEqual(['Office', 'Personal', 'Office']);
+    expect(result.tasks[1]).toBe(TASKS[1]);
+  });
+
+  it('should leave tasks alone when the name stays', () => {
+    const result = updateCategory(DEFAULT_CATEGORIES, TASKS, 'work', { archived: true });
+
+    expect(result.tasks).toBe(TASKS);
+    expect(getPickerCategories(result.categories).map(c => c.id)).not.toContain('work');
+    expect(getPickerCategories(result.categories, 'Work').map(c => c.id)).toContain('work');
+  });
+
+  it('should move categories and stop at the ends', () => {
+    expect(moveCategory(DEFAULT_CATEGORIES, 'shopping', -1).map(c => c.id)).toEqual(['personal', 'shopping', 'work', 'health', 'ideas']);
+    expect(moveCategory(DEFAULT_CATEGORIES, 'personal', -1)).toBe(DEFAULT_CATEGORIES);
+  });
+
+  it('should reassign tasks when deleting', () => {
+    const result = deleteCategory(DEFAULT_CATEGORIES, TASKS, 'work', 'personal');
+
+    expect(result.categories.map(c => c.id)).not.toContain('work');
+    expect(result.tasks.map(t => t.category)).toEqual(['Personal', 'Personal', 'Personal']);
+    expect(deleteCategory(DEFAULT_CATEGORIES, TASKS, 'work', 'work').categories).toBe(DEFAULT_CATEGORIES);
+  });
+
+  it('should return the same task list when no task is in the category', () => {
+    expect(deleteCategory(DEFAULT_CATEGORIES, TASKS, 'ideas', 'personal').tasks).toBe(TASKS);
+    expect(updateCategory(DEFAULT_CATEGORIES, TASKS, 'ideas', { name: 'Someday' }).tasks).toBe(TASKS);
+  });
+
+  it('should adopt categories that only tasks know', () => {
+    const tasks = [createTask({ category: 'Kitchen' }), createTask({ category: 'kitchen' }), createTask()];
+    const merged = withTaskCategories(DEFAULT_CATEGORIES, tasks, name => `id-${name}`);
+
+    expect(merged.slice(5)).toEqual([{ id: 'id-Kitchen', name: 'Kitchen', color: '#00BCD4', icon: '👤' }]);
+    expect(getCategoryColor(merged, 'KITCHEN')).toBe('#00BCD4');
+    expect(getCategoryColor(DEFAULT_CATEGORIES, 'Garage')).toBe(FALLBACK_COLOR);
+    expect(withTaskCategories(DEFAULT_CATEGORIES, [createTask()], String)).toBe(DEFAULT_CATEGORIES);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * CleanTasks Due Date Tests
+ * Tests for deadlines, due filters and sorting one-off tasks
+ */
+
+import { Task } from '../src/types';
+import { getDeadline, getDueLabel, getDueStatus, matchesDueFilter, parseDueAt } from '../src/utils/due';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const ZONE = 'UTC';
+
+describe('parseDueAt', () => {
+  it('should accept a day with an optional time', () => {
+    expect(parseDueAt('2026-03-05')).toEqual({ date: { year: 2026, month: 2, day: 5 }, time: null });
+    expect(parseDueAt('2026-03-05T17:30')).toEqual({ date: { year: 2026, month: 2, day: 5 }, time: { hour: 17, minute: 30 } });
+  });
+
+  it('should reject days that do not exist and malformed values', () => {
+    expect(parseDueAt('2026-02-30')).toBeNull();
+    expect(parseDueAt('2026-13-01')).toBeNull();
+    expect(parseDueAt('2026-03-05T25:00')).toBeNull();
+    expect(parseDueAt('5 March')).toBeNull();
+    expect(parseDueAt(undefined)).toBeNull();
+  });
+});
+
+describe('Due status', () => {
+  it('should be due by the end of a day without a time', () => {
+    expect(getDeadline(parseDueAt('2026-03-02')!, ZONE).toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    expect(getDeadline(parseDueAt('2026-03-02')!, 'Europe/Berlin').toISOString()).toBe('2026-03-02T23:00:00.000Z');
+  });
+
+  it('should sort tasks into overdue, today and upcoming', () => {
+    expect(getDueStatus(createTask({ dueAt: '2026-03-01' }), NOW, ZONE)).toBe('overdue');
+    expect(getDueStatus(createTask({ dueAt: '2026-03-02T09:00' }), NOW, ZONE)).toBe('overdue');
+    expect(getDueStatus(createTask({ dueAt: '2026-03-02' }), NOW, ZONE)).toBe('today');
+    expect(getDueStatus(createTask({ dueAt: '2026-03-02T18:00' }), NOW, ZONE)).toBe('today');
+    expect(getDueStatus(createTask({ dueAt: '2026-03-03' }), NOW, ZONE)).toBe('upcoming');
+  });
+
+  it('should leave done tasks and tasks without a due date out', () => {
+    expect(getDueStatus(createTask({ dueAt: '2026-03-01', completed: true }), NOW, ZONE)).toBeNull();
+    expect(getDueStatus(createTask(), NOW, ZONE)).toBeNull();
+    expect(matchesDueFilter(createTask(), 'any', NOW, ZONE)).toBe(true);
+    expect(matchesDueFilter(createTask(), 'today', NOW, ZONE)).toBe(false);
+  });
+});
+
+describe('Labels', () => {
+  it('should label days relative to today', () => {
+    expect(getDueLabel('2026-03-02T17:00', NOW, ZONE)).toBe('Today 17:00');
+    expect(getDueLabel('2026-03-03', NOW, ZONE)).toBe('Tomorrow');
+    expect(getDueLabel('2026-03-01', NOW, ZONE)).toBe('Yesterday');
+    expect(getDueLabel('2026-04-10', NOW, ZONE)).toBe('Apr 10');
+    expect(getDueLabel('2027-01-04', NOW, ZONE)).toBe('Jan 4, 2027');
+    expect(getDueLabel(undefined, NOW, ZONE)).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * CleanTasks Completion History Tests
+ * Tests for the append-only completion log
+ */
+
+import { Task } from '../src/types';
+import { completeTask, getCompletions, getLastCompletedAt, uncompleteTask } from '../src/utils/history';
+import { checkAndResetTasks, getPreviousOccurrence } from '../src/utils/scheduler';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00'),
+  ...overrides,
+});
+
+describe('Completion history', () => {
+  it('should append an entry for every check and un-check', () => {
+    let task = createTask();
+    task = completeTask(task, new Date('2026-02-20T10:00:00'));
+    task = uncompleteTask(task, new Date('2026-02-20T10:05:00'));
+    task = completeTask(task, new Date('2026-02-20T11:00:00'), null, '  done properly ');
+
+    expect(task.completed).toBe(true);
+    expect(task.history?.map(e => e.type)).toEqual(['completed', 'uncompleted', 'completed']);
+    expect(task.history?.[2].note).toBe('done properly');
+  });
+
+  it('should record the occurrence a completion satisfied', () => {
+    const schedule = { type: 'daily' as const, time: '09:00' };
+    const at = new Date('2026-02-20T10:00:00');
+
+    const task = completeTask(createTask({ schedule }), at, getPreviousOccurrence(schedule, at));
+
+    expect(task.history?.[0].occurrence).toBe(new Date('2026-02-20T09:00:00').toISOString());
+  });
+
+  it('should attribute early completions to the previous occurrence', () => {
+    const schedule = { type: 'daily' as const, time: '09:00' };
+
+    expect(getPreviousOccurrence(schedule, new Date('2026-02-20T08:00:00')))
+      .toEqual(new Date('2026-02-19T09:00:00'));
+  });
+
+  it('should drop completions withdrawn by an un-check', () => {
+    let task = createTask();
+    task = completeTask(task, new Date('2026-02-18T10:00:00'));
+    task = completeTask(uncompleteTask(task, new Date('2026-02-18T10:01:00')), new Date('2026-02-19T10:00:00'));
+    task = uncompleteTask(task, new Date('2026-02-19T10:01:00'));
+    task = completeTask(task, new Date('2026-02-20T10:00:00'));
+
+    expect(getCompletions(task).map(e => e.at)).toEqual([new Date('2026-02-20T10:00:00').toISOString()]);
+  });
+
+  it('should read the last completion from the log', () => {
+    const task = completeTask(createTask(), new Date('2026-02-20T10:00:00'));
+
+    expect(getLastCompletedAt(task)).toBe(new Date('2026-02-20T10:00:00').toISOString());
+    expect(getLastCompletedAt(uncompleteTask(task, new Date('2026-02-20T11:00:00')))).toBeUndefined();
+  });
+
+  it('should fall back to lastCompletedAt for tasks without a log', () => {
+    const task = createTask({ completed: true, lastCompletedAt: '2026-02-01T10:00:00.000Z' });
+
+    expect(getLastCompletedAt(task)).toBe('2026-02-01T10:00:00.000Z');
+    expect(completeTask(task, new Date()).lastCompletedAt).toBeUndefined();
+  });
+
+  it('should drive scheduled resets', () => {
+    const task = completeTask(
+      createTask({ schedule: { type: 'daily', time: '09:00' } }),
+      new Date('2026-02-19T18:00:00')
+    );
+
+    expect(checkAndResetTasks([task], new Date('2026-02-20T08:59:00'))[0].completed).toBe(true);
+    const [reset] = checkAndResetTasks([task], new Date('2026-02-20T09:00:00'));
+    expect(reset.completed).toBe(false);
+    expect(reset.history).toEqual(task.history);
+  });
+});
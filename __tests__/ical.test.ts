@@ -0,0 +1,206 @@
+/**
+ * CleanTasks iCalendar Tests
+ * Tests for translating schedules to RRULEs and reading .ics files back
+ */
+
+import { exportIcs, parseIcs, rruleToSchedule, scheduleToRRule } from '../src/storage/ical';
+import { StorageError } from '../src/storage/schema';
+import { Schedule, Task } from '../src/types';
+import { getNextOccurrence } from '../src/utils/scheduler';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-01T09:00:00.000Z');
+
+describe('scheduleToRRule', () => {
+  it('should translate the presets', () => {
+    expect(scheduleToRRule({ type: 'daily' })).toBe('FREQ=DAILY');
+    expect(scheduleToRRule({ type: 'weekly_monday' })).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(scheduleToRRule({ type: 'biweekly', dayOfWeek: 3 })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE');
+    expect(scheduleToRRule({ type: 'second_friday' })).toBe('FREQ=MONTHLY;BYDAY=2FR');
+    expect(scheduleToRRule({ type: 'last_day' })).toBe('FREQ=MONTHLY;BYMONTHDAY=-1');
+    expect(scheduleToRRule({ type: 'weekdays' })).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(scheduleToRRule({ type: 'weekends' })).toBe('FREQ=WEEKLY;BYDAY=SA,SU');
+    expect(scheduleToRRule({ type: 'none' })).toBeNull();
+  });
+
+  it('should keep month-end clamping for late days of the month', () => {
+    expect(scheduleToRRule({ type: 'monthly', dayOfMonth: 15 })).toBe('FREQ=MONTHLY;BYMONTHDAY=15');
+    expect(scheduleToRRule({ type: 'monthly', dayOfMonth: 31 })).toBe('FREQ=MONTHLY;BYMONTHDAY=31,-1;BYSETPOS=1');
+  });
+
+  it('should translate cron expressions', () => {
+    expect(scheduleToRRule({ type: 'custom', customCron: '30 7 * * 1-5' })).toBe(
+      'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=7;BYMINUTE=30'
+    );
+    expect(scheduleToRRule({ type: 'custom', customCron: 'rrule:freq=monthly;byday=1tu' })).toBe(
+      'FREQ=MONTHLY;BYDAY=1TU'
+    );
+    // Day-of-month OR day-of-week has no single RRULE
+    expect(scheduleToRRule({ type: 'custom', customCron: '0 9 1 * 1' })).toBeNull();
+  });
+
+  it('should map every preset back to itself', () => {
+    const schedules: Schedule[] = [
+      { type: 'daily' },
+      { type: 'weekly', dayOfWeek: 3 },
+      { type: 'weekly_monday' },
+      { type: 'weekly_friday' },
+      { type: 'biweekly', dayOfWeek: 2 },
+      { type: 'monthly', monthlyRule: 'day_of_month', dayOfMonth: 30 },
+      { type: 'monthly', monthlyRule: 'last_weekday' },
+      { type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: -1, dayOfWeek: 4 },
+      { type: 'second_friday' },
+      { type: 'last_day' },
+      { type: 'weekdays' },
+      { type: 'weekends' },
+    ];
+    for (const schedule of schedules) {
+      expect(rruleToSchedule(scheduleToRRule(schedule)!)).toEqual(schedule);
+    }
+  });
+
+  it('should keep other rules as custom and reject ones it cannot follow', () => {
+    expect(rruleToSchedule('RRULE:FREQ=MONTHLY;BYDAY=1TU,3TU;WKST=MO')).toEqual({
+      type: 'custom',
+      customCron: 'FREQ=MONTHLY;BYDAY=1TU,3TU',
+    });
+    expect(() => rruleToSchedule('FREQ=WEEKLY;COUNT=3')).toThrow('COUNT');
+  });
+});
+
+describe('exportIcs', () => {
+  it('should write a VTODO per scheduled task', () => {
+    const { ics, exported } = exportIcs(
+      [
+        createTask({
+          id: '42',
+          text: 'Pay rent; transfer, then file',
+          priority: 'high',
+          schedule: { type: 'second_friday', time: '18:30', timeZone: 'Europe/Berlin' },
+        }),
+        createTask({ id: '43', text: 'One-off' }),
+      ],
+      'VTODO',
+      NOW
+    );
+    const lines = ics.split('\r\n');
+
+    expect(exported).toBe(1);
+    expect(lines).toContain('UID:42@cleantasks');
+    expect(lines).toContain('SUMMARY:Pay rent\\; transfer\\, then file');
+    expect(lines).toContain('PRIORITY:1');
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20260109T183000');
+    expect(lines).toContain('RRULE:FREQ=MONTHLY;BYDAY=2FR');
+    expect(lines).toContain('STATUS:NEEDS-ACTION');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const { ics } = exportIcs([createTask({ text: 'ü'.repeat(60), schedule: { type: 'daily' } })], 'VEVENT', NOW);
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain('BEGIN:VEVENT');
+    expect(ics).not.toContain('STATUS:');
+  });
+
+  it('should report schedules without an RRULE', () => {
+    const { exported, skipped } = exportIcs(
+      [createTask({ text: 'Odd', schedule: { type: 'custom', customCron: '0 9 1 * 1' } })],
+      'VTODO',
+      NOW
+    );
+
+    expect(exported).toBe(0);
+    expect(skipped).toEqual(["Odd: the schedule can't be written as an RRULE"]);
+  });
+});
+
+describe('parseIcs', () => {
+  it('should round-trip scheduled tasks', () => {
+    const tasks = [
+      createTask({
+        id: '7',
+        text: 'Water plants',
+        priority: 'low',
+        category: 'Home, garden',
+        tags: ['balcony', 'quick'],
+        schedule: { type: 'biweekly', dayOfWeek: 2, time: '08:15', timeZone: 'America/New_York', anchor: '2026-01-01' },
+      }),
+    ];
+    const { tasks: [task], skipped } = parseIcs(exportIcs(tasks, 'VTODO', NOW).ics, NOW);
+
+    expect(skipped).toEqual([]);
+    expect(task).toMatchObject({ id: '7', text: 'Water plants', priority: 'low', category: 'Home, garden', tags: ['balcony', 'quick'] });
+    expect(task.schedule).toMatchObject({ type: 'biweekly', dayOfWeek: 2, time: '08:15', timeZone: 'America/New_York' });
+    expect(getNextOccurrence(task.schedule!, NOW)).toEqual(getNextOccurrence(tasks[0].schedule!, NOW));
+  });
+
+  it('should round-trip the due dates of one-off tasks', () => {
+    const tasks = [
+      createTask({ id: '8', text: 'Renew passport', dueAt: '2026-03-05' }),
+      createTask({ id: '9', text: 'Call the bank', dueAt: '2026-03-06T17:30' }),
+    ];
+    const { ics, exported } = exportIcs(tasks, 'VTODO', NOW);
+
+    expect(exported).toBe(2);
+    expect(ics.split('\r\n')).toEqual(expect.arrayContaining(['DUE;VALUE=DATE:20260305', 'DUE:20260306T173000']));
+    expect(ics).not.toContain('RRULE');
+    expect(parseIcs(ics, NOW).tasks.map(t => [t.id, t.dueAt, t.schedule])).toEqual([
+      ['8', '2026-03-05', undefined],
+      ['9', '2026-03-06T17:30', undefined],
+    ]);
+    expect(exportIcs(tasks, 'VEVENT', NOW).exported).toBe(0);
+  });
+
+  it('should read VTODOs written by other apps', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VTODO',
+      'UID:abc-123',
+      'SUMMARY:Take out the bins\\, both',
+      '  of them',
+      'DTSTART;TZID="Europe/London":20260105T070000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;WKST=SU',
+      'PRIORITY:7',
+      'STATUS:COMPLETED',
+      'COMPLETED:20260105T080000Z',
+      'BEGIN:VALARM',
+      'SUMMARY:Reminder',
+      'END:VALARM',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:abc-124',
+      'SUMMARY:Ten times only',
+      'RRULE:FREQ=DAILY;COUNT=10',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    const { tasks, skipped } = parseIcs(ics, NOW);
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({
+      id: 'abc-123',
+      text: 'Take out the bins, both of them',
+      priority: 'low',
+      completed: true,
+      schedule: { type: 'weekly_monday', time: '07:00', timeZone: 'Europe/London', anchor: '2026-01-05' },
+      history: [{ type: 'completed', at: '2026-01-05T08:00:00.000Z' }],
+    });
+    expect(skipped).toEqual(['Ten times only: RRULE part COUNT is not supported']);
+  });
+
+  it('should reject text that is not a calendar', () => {
+    expect(() => parseIcs('id,text')).toThrow(StorageError);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * CleanTasks Id Tests
+ * Tests for ids of new tasks and checklist steps
+ */
+
+import { createId } from '../src/utils/ids';
+
+describe('createId', () => {
+  it('should be the creation time in milliseconds', () => {
+    expect(createId(2000000000000)).toBe('2000000000000');
+  });
+
+  it('should never repeat within the same millisecond', () => {
+    const ids = [createId(2100000000000), createId(2100000000000), createId(2100000000000)];
+
+    expect(ids).toEqual(['2100000000000', '2100000000001', '2100000000002']);
+    expect(createId(2100000000001)).toBe('2100000000003');
+  });
+});
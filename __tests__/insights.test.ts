@@ -0,0 +1,165 @@
+/**
+ * CleanTasks Insights Tests
+ * Tests for the completion aggregations behind the insights screen
+ */
+
+import { Task } from '../src/types';
+import { completeTask, uncompleteTask } from '../src/utils/history';
+import {
+  averageTimeToComplete,
+  completionRates,
+  completionsByWeekday,
+  completionsPerDay,
+  completionsPerWeek,
+  formatDuration,
+  getPunctuality,
+} from '../src/utils/insights';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-03-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const completedAt = (task: Task, ...times: string[]) =>
+  times.reduce((t, time) => completeTask(t, new Date(time)), task);
+
+// A Wednesday
+const NOW = new Date('2026-03-11T12:00:00.000Z');
+const ZONE = 'UTC';
+const DAY = 24 * 60 * 60 * 1000;
+
+// Done on 3/8, missed 3/9, done on 3/10 and today; the first day started
+// before the task existed
+const waterPlants = completedAt(
+  createTask({
+    id: 'water',
+    category: 'Home',
+    createdAt: new Date('2026-03-07T12:00:00.000Z'),
+    schedule: { type: 'daily', time: '09:00', timeZone: ZONE },
+  }),
+  '2026-03-08T10:00:00.000Z',
+  '2026-03-10T10:00:00.000Z',
+  '2026-03-11T10:00:00.000Z'
+);
+
+const TASKS: Task[] = [
+  waterPlants,
+  // Done before its due date
+  completedAt(
+    createTask({
+      id: 'rent',
+      category: 'Home',
+      priority: 'high',
+      dueAt: '2026-03-09',
+      createdAt: new Date('2026-03-02T12:00:00.000Z'),
+    }),
+    '2026-03-09T08:00:00.000Z'
+  ),
+  // Done after it
+  completedAt(createTask({ id: 'taxes', category: 'work', priority: 'high', dueAt: '2026-03-05' }), '2026-03-10T00:00:00.000Z'),
+  // Open past it
+  createTask({ id: 'bank', category: 'Work', priority: 'low', dueAt: '2026-03-10' }),
+  createTask({ id: 'book', priority: 'low' }),
+];
+
+const counts = (bars: { label: string; count: number }[]) => bars.map(b => `${b.label} ${b.count}`);
+
+describe('completion counts', () => {
+  it('should count completions per day, today last', () => {
+    expect(counts(completionsPerDay(TASKS, 7, NOW, ZONE))).toEqual([
+      'Thu 0',
+      'Fri 0',
+      'Sat 0',
+      'Sun 1',
+      'Mon 1',
+      'Tue 2',
+      'Wed 1',
+    ]);
+  });
+
+  it('should count completions per week from Monday', () => {
+    expect(counts(completionsPerWeek(TASKS, 3, NOW, ZONE))).toEqual(['2/23 0', '3/2 1', '3/9 4']);
+  });
+
+  it('should count completions by weekday, Monday first', () => {
+    expect(counts(completionsByWeekday(TASKS, ZONE))).toEqual([
+      'Mon 1',
+      'Tue 2',
+      'Wed 1',
+      'Thu 0',
+      'Fri 0',
+      'Sat 0',
+      'Sun 1',
+    ]);
+  });
+
+  it('should leave out withdrawn completions', () => {
+    const done = completedAt(createTask(), '2026-03-11T08:00:00.000Z');
+    const task = uncompleteTask(done, new Date('2026-03-11T09:00:00.000Z'));
+
+    expect(completionsPerDay([task], 1, NOW, ZONE)[0].count).toBe(0);
+  });
+});
+
+describe('completionRates', () => {
+  it('should rate categories by occurrence and task, biggest first', () => {
+    expect(completionRates(TASKS, 'category', NOW).map(r => [r.label, r.done, r.total])).toEqual([
+      ['Home', 4, 5],
+      ['work', 1, 2],
+      ['Personal', 0, 1],
+    ]);
+  });
+
+  it('should rate priorities from high to low', () => {
+    expect(completionRates(TASKS, 'priority', NOW).map(r => [r.key, r.rate])).toEqual([
+      ['high', 1],
+      ['medium', 0.75],
+      ['low', 0],
+    ]);
+  });
+});
+
+describe('getPunctuality', () => {
+  it('should count occurrences and due dates as on time, late or missed', () => {
+    expect(getPunctuality(TASKS, NOW, ZONE)).toEqual({ onTime: 4, late: 1, missed: 2, rate: 4 / 7 });
+  });
+
+  it('should count an occurrence done after it was overdue as late', () => {
+    // On time on 3/9, the 3/10 one only done the next morning, and today's
+    // right at the overdue mark
+    const task = completedAt(
+      createTask({
+        createdAt: new Date('2026-03-08T12:00:00.000Z'),
+        schedule: { type: 'daily', time: '09:00', timeZone: ZONE },
+      }),
+      '2026-03-09T10:00:00.000Z',
+      '2026-03-11T08:00:00.000Z',
+      '2026-03-11T11:00:00.000Z'
+    );
+
+    expect(getPunctuality([task], NOW, ZONE)).toEqual({ onTime: 2, late: 1, missed: 0, rate: 2 / 3 });
+  });
+
+  it('should have no rate when nothing was due', () => {
+    expect(getPunctuality([createTask()], NOW, ZONE).rate).toBeNull();
+  });
+});
+
+describe('averageTimeToComplete', () => {
+  it('should average one-off tasks from creation to completion', () => {
+    expect(averageTimeToComplete(TASKS)).toBe((6 * DAY + 20 * 60 * 60 * 1000 + 9 * DAY) / 2);
+    expect(averageTimeToComplete([waterPlants])).toBeNull();
+  });
+
+  it('should format durations in the largest unit', () => {
+    expect(formatDuration(45 * 60 * 1000)).toBe('45 min');
+    expect(formatDuration(5 * 60 * 60 * 1000)).toBe('5 h');
+    expect(formatDuration(DAY)).toBe('1 day');
+    expect(formatDuration(averageTimeToComplete(TASKS)!)).toBe('7.9 days');
+  });
+});
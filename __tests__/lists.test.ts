@@ -0,0 +1,22 @@
+/**
+ * CleanTasks List Helper Tests
+ * Tests for reordering user-ordered lists
+ */
+
+import { moveItem } from '../src/utils/lists';
+
+describe('moveItem', () => {
+  const list = ['a', 'b', 'c'];
+
+  it('should move an item up or down', () => {
+    expect(moveItem(list, 2, -1)).toEqual(['a', 'c', 'b']);
+    expect(moveItem(list, 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(list).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should return the list itself at the ends or for a missing index', () => {
+    expect(moveItem(list, 0, -1)).toBe(list);
+    expect(moveItem(list, 2, 5)).toBe(list);
+    expect(moveItem(list, -1, 1)).toBe(list);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * CleanTasks Notification Planning Tests
+ * Tests for which reminders are pending and quiet hours
+ */
+
+import { QuietHours, Settings, Task } from '../src/types';
+import { MAX_PENDING, deferPastQuietHours, isQuietTime, planNotifications } from '../src/utils/notifications';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  schedule: { type: 'daily', time: '09:00', timeZone: 'UTC' },
+  ...overrides,
+});
+
+const QUIET: QuietHours = { enabled: true, start: '22:00', end: '07:00' };
+const DEFAULT_SETTINGS: Settings = {
+  quietHours: { ...QUIET, enabled: false },
+  sortBy: 'manual',
+  groupBy: 'none',
+  trashRetentionDays: 30,
+  archiveAfterDays: 7,
+};
+const WITH_QUIET: Settings = { ...DEFAULT_SETTINGS, quietHours: QUIET };
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+const summarize = (tasks: Task[], settings: Settings = DEFAULT_SETTINGS) =>
+  planNotifications(tasks, settings, NOW, 'UTC').map(n => `${n.kind} ${n.at.toISOString()}`);
+
+describe('planNotifications', () => {
+  it('should plan upcoming occurrences and an overdue reminder for the open one', () => {
+    expect(summarize([createTask()])).toEqual([
+      'overdue 2026-03-02T11:00:00.000Z',
+      'due 2026-03-03T09:00:00.000Z',
+      'overdue 2026-03-03T11:00:00.000Z',
+      'due 2026-03-04T09:00:00.000Z',
+      'overdue 2026-03-04T11:00:00.000Z',
+      'due 2026-03-05T09:00:00.000Z',
+      'overdue 2026-03-05T11:00:00.000Z',
+    ]);
+  });
+
+  it('should not remind about an occurrence that is already done', () => {
+    expect(summarize([createTask({ completed: true })])[0]).toBe('due 2026-03-03T09:00:00.000Z');
+  });
+
+  it('should skip opted-out, trashed and unscheduled tasks', () => {
+    expect(
+      summarize([
+        createTask({ reminders: false }),
+        createTask({ id: '2', schedule: undefined }),
+        createTask({ id: '3', deletedAt: '2026-03-01T00:00:00.000Z' }),
+      ])
+    ).toEqual([]);
+  });
+
+  it('should not send an overdue reminder once the next occurrence is due', () => {
+    const hourly = createTask({ schedule: { type: 'custom', customCron: '0 * * * *', timeZone: 'UTC' } });
+
+    expect(summarize([hourly]).every(line => line.startsWith('due'))).toBe(true);
+  });
+
+  it('should describe the notification', () => {
+    const [due] = planNotifications([createTask({ text: 'Water plants', completed: true })], DEFAULT_SETTINGS, NOW, 'UTC');
+
+    expect(due).toMatchObject({ id: '1:due:2026-03-03T09:00:00.000Z', taskId: '1', title: 'Water plants', body: 'Due now · Daily' });
+  });
+
+  it('should move notifications out of quiet hours', () => {
+    const early = createTask({ completed: true, schedule: { type: 'daily', time: '06:00', timeZone: 'UTC' } });
+    const [due] = planNotifications([early], WITH_QUIET, NOW, 'UTC');
+
+    expect(due.at.toISOString()).toBe('2026-03-03T07:00:00.000Z');
+    expect(due.body).toBe('Due since 06:00');
+  });
+
+  it('should remind about one-off tasks with a due date', () => {
+    const oneOff = (dueAt: string) => createTask({ schedule: undefined, dueAt });
+
+    expect(summarize([oneOff('2026-03-03T17:00')])).toEqual(['due 2026-03-03T17:00:00.000Z', 'overdue 2026-03-03T19:00:00.000Z']);
+    expect(summarize([oneOff('2026-03-04')])).toEqual(['due 2026-03-04T09:00:00.000Z']);
+    expect(summarize([{ ...oneOff('2026-03-04'), completed: true }])).toEqual([]);
+  });
+
+  it('should cap the number of pending notifications', () => {
+    const tasks = Array.from({ length: 30 }, (_, i) => createTask({ id: String(i) }));
+
+    expect(planNotifications(tasks, DEFAULT_SETTINGS, NOW, 'UTC')).toHaveLength(MAX_PENDING);
+  });
+});
+
+describe('Quiet hours', () => {
+  it('should span midnight', () => {
+    expect(isQuietTime({ hour: 23, minute: 0 }, QUIET)).toBe(true);
+    expect(isQuietTime({ hour: 6, minute: 59 }, QUIET)).toBe(true);
+    expect(isQuietTime({ hour: 7, minute: 0 }, QUIET)).toBe(false);
+    expect(isQuietTime({ hour: 23, minute: 0 }, { ...QUIET, enabled: false })).toBe(false);
+  });
+
+  it('should work within a day', () => {
+    const lunch = { enabled: true, start: '12:00', end: '13:30' };
+
+    expect(isQuietTime({ hour: 12, minute: 45 }, lunch)).toBe(true);
+    expect(isQuietTime({ hour: 13, minute: 30 }, lunch)).toBe(false);
+  });
+
+  it('should defer to the end of quiet hours on the right day', () => {
+    expect(deferPastQuietHours(new Date('2026-03-02T23:15:00.000Z'), QUIET, 'UTC').toISOString()).toBe(
+      '2026-03-03T07:00:00.000Z'
+    );
+    expect(deferPastQuietHours(new Date('2026-03-02T05:00:00.000Z'), QUIET, 'UTC').toISOString()).toBe(
+      '2026-03-02T07:00:00.000Z'
+    );
+    // Quiet hours follow the device clock, here UTC+1
+    expect(deferPastQuietHours(new Date('2026-03-02T21:30:00.000Z'), QUIET, 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-03T06:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * CleanTasks Search Query Tests
+ * Tests for parsing the search bar's query language and matching tasks
+ */
+
+import { Task } from '../src/types';
+import { getDueInstant, matchesSearch, parseSearch } from '../src/utils/query';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+// A Monday
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const ZONE = 'UTC';
+
+const search = (query: string, tasks: Task[]) => {
+  const parsed = parseSearch(query);
+  return tasks.filter(t => matchesSearch(t, parsed, NOW, ZONE)).map(t => t.id);
+};
+
+describe('parseSearch', () => {
+  it('should read fields, phrases and negation', () => {
+    expect(parseSearch('cat:Work -pri:high "Water the plants" #Kitchen').terms).toEqual([
+      { negated: false, field: 'category', value: 'work' },
+      { negated: true, field: 'priority', value: 'high' },
+      { negated: false, field: 'text', value: 'water the plants' },
+      { negated: false, field: 'tag', value: 'kitchen' },
+    ]);
+  });
+
+  it('should keep quoted field values together', () => {
+    expect(parseSearch('cat:"Living room" is:open').terms).toEqual([
+      { negated: false, field: 'category', value: 'living room' },
+      { negated: false, field: 'status', value: 'active' },
+    ]);
+  });
+
+  it('should read due conditions', () => {
+    const due = (query: string) => parseSearch(query).terms.map(t => t.value);
+
+    expect(due('due:today due:overdue')).toEqual([{ type: 'day', offset: 0 }, { type: 'overdue' }]);
+    expect(due('due:<7d due:>2w due:12h')).toEqual([
+      { type: 'within', op: '<', ms: 7 * 86400000 },
+      { type: 'within', op: '>', ms: 14 * 86400000 },
+      { type: 'within', op: '<=', ms: 12 * 3600000 },
+    ]);
+    expect(due('due:<=2026-03-05')).toEqual([{ type: 'date', op: '<=', date: { year: 2026, month: 2, day: 5 } }]);
+  });
+
+  it('should leave out terms it cannot read with a hint', () => {
+    const { terms, errors } = parseSearch('pri:urgent due:soon foo:bar cat: sched:yearly "open');
+
+    expect(terms).toEqual([{ negated: false, field: 'text', value: 'open' }]);
+    expect(errors).toEqual([
+      'Close the quote to finish the phrase',
+      'pri: takes low, medium or high',
+      'due: takes today, tomorrow, overdue, none, a date like 2026-03-05 or a span like <7d',
+      'Unknown filter "foo:". Try cat:, pri:, is:, sched:, tag:, due: or note:',
+      'cat: needs a value',
+      'sched: takes a schedule such as daily, weekly, monthly, custom or none',
+    ]);
+  });
+
+  it('should treat an empty query and a lone dash as no filter', () => {
+    expect(parseSearch('   ').terms).toEqual([]);
+    expect(parseSearch('10:30 -').terms.map(t => t.value)).toEqual(['10:30', '-']);
+  });
+});
+
+describe('matchesSearch', () => {
+  const TASKS = [
+    createTask({
+      id: 'bathroom',
+      text: 'Clean bathroom',
+      category: 'Home',
+      priority: 'high',
+      tags: ['upstairs', 'long'],
+      schedule: { type: 'weekly_monday', time: '09:00', timeZone: ZONE },
+      subtasks: [{ id: 'a', text: 'Scrub the tub', done: false }],
+    }),
+    createTask({
+      id: 'coffee',
+      text: 'Descale coffee machine',
+      category: 'Kitchen',
+      completed: true,
+      schedule: { type: 'monthly', dayOfMonth: 15, time: '09:00', timeZone: ZONE },
+      history: [{ type: 'completed', at: '2026-02-16T10:00:00.000Z', note: 'Used citric acid' }],
+    }),
+    createTask({ id: 'milk', text: 'Buy milk', category: 'Shopping', dueAt: '2026-03-02' }),
+    createTask({ id: 'report', text: 'Send report', category: 'Work', dueAt: '2026-03-01T17:00', tags: ['quick'] }),
+    createTask({ id: 'idea', text: 'Plan the garden', category: 'Ideas', priority: 'low' }),
+  ];
+
+  it('should match words in the text and checklist', () => {
+    expect(search('clean', TASKS)).toEqual(['bathroom']);
+    expect(search('tub', TASKS)).toEqual(['bathroom']);
+    expect(search('"the garden"', TASKS)).toEqual(['idea']);
+    expect(search('', TASKS)).toHaveLength(5);
+  });
+
+  it('should match fields and negation', () => {
+    expect(search('cat:kit', TASKS)).toEqual(['coffee']);
+    expect(search('pri:high is:active', TASKS)).toEqual(['bathroom']);
+    expect(search('-pri:medium', TASKS)).toEqual(['bathroom', 'idea']);
+    expect(search('is:recurring is:done', TASKS)).toEqual(['coffee']);
+    expect(search('sched:weekly', TASKS)).toEqual(['bathroom']);
+    expect(search('sched:none', TASKS)).toEqual(['milk', 'report', 'idea']);
+    expect(search('#up', TASKS)).toEqual(['bathroom']);
+    expect(search('note:citric', TASKS)).toEqual(['coffee']);
+  });
+
+  it('should match due dates of one-off and recurring tasks', () => {
+    expect(search('due:today', TASKS)).toEqual(['bathroom', 'milk']);
+    expect(search('is:overdue', TASKS)).toEqual(['bathroom', 'report']);
+    expect(search('due:<14d -is:overdue', TASKS)).toEqual(['coffee', 'milk']);
+    expect(search('due:>2026-03-02', TASKS)).toEqual(['coffee']);
+    expect(search('due:none', TASKS)).toEqual(['idea']);
+  });
+
+  it('should find when recurring tasks are due', () => {
+    expect(getDueInstant(TASKS[0], NOW, ZONE)).toEqual(new Date('2026-03-02T09:00:00.000Z'));
+    expect(getDueInstant(TASKS[1], NOW, ZONE)).toEqual(new Date('2026-03-15T09:00:00.000Z'));
+    expect(getDueInstant(TASKS[4], NOW, ZONE)).toBeNull();
+  });
+});
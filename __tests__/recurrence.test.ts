@@ -0,0 +1,117 @@
+/**
+ * CleanTasks Recurrence Rule Tests
+ * Tests for the cron / RRULE parser behind custom schedules
+ */
+
+import { parseRecurrence, ruleOccursOn, ruleTimes, validateRecurrence } from '../src/utils/recurrence';
+import { CivilDate } from '../src/utils/dates';
+
+const day = (iso: string): CivilDate => {
+  const [year, month, date] = iso.split('-').map(Number);
+  return { year, month: month - 1, day: date };
+};
+
+// All days in a month the rule occurs on
+const occurrencesIn = (input: string, year: number, month: number, anchor = day('2026-01-01')) => {
+  const rule = parseRecurrence(input);
+  const days: number[] = [];
+  for (let d = 1; d <= new Date(year, month + 1, 0).getDate(); d++) {
+    if (ruleOccursOn(rule, { year, month, day: d }, anchor)) days.push(d);
+  }
+  return days;
+};
+
+describe('Recurrence rules', () => {
+  describe('Cron expressions', () => {
+    it('should parse weekday mornings', () => {
+      // March 2026 starts on a Sunday
+      expect(occurrencesIn('30 9 * * 1-5', 2026, 2)).toEqual([
+        2, 3, 4, 5, 6, 9, 10, 11, 12, 13, 16, 17, 18, 19, 20, 23, 24, 25, 26, 27, 30, 31,
+      ]);
+      expect(ruleTimes(parseRecurrence('30 9 * * 1-5'))).toEqual([{ hour: 9, minute: 30 }]);
+    });
+
+    it('should accept names, lists and steps', () => {
+      const rule = parseRecurrence('0 */6 * JAN,JUL SUN');
+
+      expect(ruleTimes(rule).map(t => t.hour)).toEqual([0, 6, 12, 18]);
+      expect(occurrencesIn('0 0 * JAN,JUL SUN', 2026, 1)).toEqual([]);
+      expect(occurrencesIn('0 0 * JAN,JUL SUN', 2026, 6)).toEqual([5, 12, 19, 26]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect(occurrencesIn('0 0 * * 7', 2026, 2)).toEqual([1, 8, 15, 22, 29]);
+    });
+
+    it('should match day-of-month OR day-of-week when both are set', () => {
+      expect(occurrencesIn('0 0 1 * FRI', 2026, 4)).toEqual([1, 8, 15, 22, 29]);
+      expect(occurrencesIn('0 0 2 * FRI', 2026, 4)).toEqual([1, 2, 8, 15, 22, 29]);
+    });
+
+    it('should match both fields when one starts with a wildcard step', () => {
+      expect(occurrencesIn('0 9 */2 * 1', 2026, 4)).toEqual([11, 25]);
+      expect(occurrencesIn('0 9 1-7 * */2', 2026, 4)).toEqual([2, 3, 5, 7]);
+    });
+  });
+
+  describe('RRULE', () => {
+    it('should support first and third Tuesday', () => {
+      expect(occurrencesIn('FREQ=MONTHLY;BYDAY=1TU,3TU', 2026, 2)).toEqual([3, 17]);
+    });
+
+    it('should support the second Friday and the last Sunday', () => {
+      expect(occurrencesIn('FREQ=MONTHLY;BYDAY=2FR', 2026, 1)).toEqual([13]);
+      expect(occurrencesIn('RRULE:FREQ=MONTHLY;BYDAY=-1SU', 2026, 1)).toEqual([22]);
+    });
+
+    it('should count month days from the end when negative', () => {
+      expect(occurrencesIn('FREQ=MONTHLY;BYMONTHDAY=-1', 2026, 1)).toEqual([28]);
+    });
+
+    it('should apply INTERVAL from the anchor', () => {
+      const anchor = day('2026-03-02'); // Monday
+
+      expect(occurrencesIn('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', 2026, 2, anchor)).toEqual([2, 16, 30]);
+      expect(occurrencesIn('FREQ=WEEKLY;INTERVAL=2', 2026, 2, anchor)).toEqual([2, 16, 30]);
+      expect(occurrencesIn('FREQ=DAILY;INTERVAL=10', 2026, 2, anchor)).toEqual([2, 12, 22]);
+    });
+
+    it('should only fire in listed months for yearly rules', () => {
+      expect(occurrencesIn('FREQ=YEARLY;BYMONTH=4;BYMONTHDAY=15', 2026, 3)).toEqual([15]);
+      expect(occurrencesIn('FREQ=YEARLY;BYMONTH=4;BYMONTHDAY=15', 2026, 4)).toEqual([]);
+    });
+
+    it('should read BYHOUR and BYMINUTE as times', () => {
+      expect(ruleTimes(parseRecurrence('FREQ=DAILY;BYHOUR=18,8;BYMINUTE=15'))).toEqual([
+        { hour: 8, minute: 15 },
+        { hour: 18, minute: 15 },
+      ]);
+      expect(ruleTimes(parseRecurrence('FREQ=DAILY'))).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept valid rules', () => {
+      expect(validateRecurrence('0 9 * * MON')).toBeNull();
+      expect(validateRecurrence('FREQ=MONTHLY;BYDAY=2FR')).toBeNull();
+    });
+
+    it.each([
+      ['', 'Enter a cron expression or RRULE'],
+      ['0 9 * *', 'Cron needs 5 fields (minute hour day-of-month month day-of-week), got 4'],
+      ['0 25 * * *', 'hour 25 is out of range 0-23'],
+      ['0 9 * * FUNDAY', '"FUNDAY" is not a valid day-of-week value'],
+      ['*/0 * * * *', 'Invalid step "0" in minute field'],
+      ['0 9 5-1 * *', 'Range 5-1 in day-of-month field runs backwards'],
+      ['0 0 30 2 *', 'Day 30 never occurs in the selected months'],
+      ['BYDAY=MO', 'RRULE is missing FREQ (DAILY, WEEKLY, MONTHLY or YEARLY)'],
+      ['FREQ=HOURLY', 'FREQ=HOURLY is not supported; use DAILY, WEEKLY, MONTHLY or YEARLY'],
+      ['FREQ=MONTHLY;BYDAY=6FR', 'BYDAY ordinal in "6FR" must be between 1 and 5 (or -1 to -5)'],
+      ['FREQ=WEEKLY;BYDAY=2FR', 'Numbered BYDAY values like 2FR need FREQ=MONTHLY or FREQ=YEARLY'],
+      ['FREQ=MONTHLY;BYSETPOS=-1', 'RRULE part BYSETPOS is not supported'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL value "0" must be a positive number'],
+    ])('should explain why %p is invalid', (input, message) => {
+      expect(validateRecurrence(input)).toBe(message);
+    });
+  });
+});
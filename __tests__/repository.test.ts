@@ -0,0 +1,107 @@
+/**
+ * CleanTasks Repository Tests
+ * Tests for the in-memory task repository and its queries
+ */
+
+import { InMemoryTaskRepository } from '../src/storage/repository';
+import { Task } from '../src/types';
+import { completeTask } from '../src/utils/history';
+import { checkAndResetTasks } from '../src/utils/scheduler';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const seed = () => [
+  createTask({ id: '1', text: 'Water plants', schedule: { type: 'daily', time: '09:00' } }),
+  createTask({ id: '2', text: 'Buy milk', category: 'Shopping', createdAt: new Date('2026-01-02T00:00:00.000Z') }),
+  createTask({ id: '3', text: 'File taxes', priority: 'high', completed: true, category: 'Work' }),
+];
+
+describe('InMemoryTaskRepository', () => {
+  it('should list tasks newest first', async () => {
+    const repository = new InMemoryTaskRepository(seed());
+
+    expect((await repository.list()).map(t => t.id)).toEqual(['2', '3', '1']);
+  });
+
+  it('should filter by query', async () => {
+    const repository = new InMemoryTaskRepository(seed());
+
+    expect((await repository.list({ completed: true })).map(t => t.id)).toEqual(['3']);
+    expect((await repository.list({ category: 'Shopping' })).map(t => t.id)).toEqual(['2']);
+    expect((await repository.list({ priority: 'high' })).map(t => t.id)).toEqual(['3']);
+    expect((await repository.list({ scheduled: true })).map(t => t.id)).toEqual(['1']);
+    expect((await repository.list({ search: 'MILK' })).map(t => t.id)).toEqual(['2']);
+    expect(await repository.list({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should insert, update and delete single tasks', async () => {
+    const repository = new InMemoryTaskRepository(seed());
+
+    await repository.upsert(createTask({ id: '4', text: 'New' }));
+    await repository.upsert({ ...(await repository.get('1'))!, text: 'Water all plants' });
+    await repository.delete('2');
+
+    expect(await repository.get('2')).toBeNull();
+    expect((await repository.get('1'))?.text).toBe('Water all plants');
+    expect(await repository.list()).toHaveLength(3);
+  });
+
+  it('should hand out copies with real dates', async () => {
+    const repository = new InMemoryTaskRepository(seed());
+
+    const task = (await repository.get('1'))!;
+    task.text = 'Changed outside';
+
+    expect(task.createdAt).toBeInstanceOf(Date);
+    expect((await repository.get('1'))?.text).toBe('Water plants');
+  });
+
+  it('should roll back a failed transaction', async () => {
+    const repository = new InMemoryTaskRepository(seed());
+
+    await expect(
+      repository.transaction(async tx => {
+        await tx.delete('1');
+        await tx.upsert(createTask({ id: '5' }));
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect((await repository.list()).map(t => t.id)).toEqual(['2', '3', '1']);
+  });
+
+  it('should report changes once per transaction', async () => {
+    const onChange = jest.fn();
+    const repository = new InMemoryTaskRepository(seed(), onChange);
+
+    await repository.transaction(async tx => {
+      await tx.delete('1');
+      await tx.delete('2');
+    });
+    await repository.upsert(createTask({ id: '6' }));
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[0][0].map((t: Task) => t.id)).toEqual(['3']);
+  });
+
+  it('should persist a reset without touching other tasks', async () => {
+    const done = completeTask(seed()[0], new Date('2026-02-20T10:00:00.000Z'));
+    const repository = new InMemoryTaskRepository([done, ...seed().slice(1)]);
+    const stored = await repository.list();
+
+    const reset = checkAndResetTasks(stored, new Date('2026-02-22T10:00:00.000Z'));
+    const changed = reset.filter((t, i) => t !== stored[i]);
+    await repository.upsert(changed);
+
+    expect(changed.map(t => t.id)).toEqual(['1']);
+    expect((await repository.get('1'))?.completed).toBe(false);
+  });
+});
@@ -3,110 +3,156 @@
  * Tests for the auto-reset scheduling logic
  */
 
-import { checkAndResetTasks } from './src/utils/scheduler';
+import { Schedule, Task } from '../src/types';
+import { checkAndResetTasks, getNextOccurrence, getOccurrencesBetween, getNextResetTime, getScheduleLabel } from '../src/utils/scheduler';
+import { parseTimeOfDay } from '../src/utils/dates';
 
 // Test helper to create a task
-const createTask = (overrides = {}) => ({
+const createTask = (overrides: Partial<Task> = {}): Task => ({
   id: '1',
   text: 'Test task',
   completed: false,
-  priority: 'medium' as const,
+  priority: 'medium',
   category: 'Personal',
-  createdAt: new Date(),
+  createdAt: new Date('2026-01-01T00:00:00'),
   ...overrides,
 });
 
-// Mock date for testing
-const mockDate = (date: Date) => {
-  jest.spyOn(global, 'Date').mockImplementation(() => date as any);
-};
+// Run a task through the same path as App: stored as JSON, parsed, reset
+const resetAt = (iso: string, task: Task) =>
+  checkAndResetTasks(JSON.parse(JSON.stringify([task])), new Date(iso));
 
 describe('Task Scheduling Logic', () => {
-  beforeEach(() => {
-    jest.useFakeTimers();
-  });
-
-  afterEach(() => {
-    jest.useRealTimers();
-  });
-
   describe('Daily reset', () => {
-    it('should reset task after 24 hours', () => {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      
+    it('should reset task once the next day starts', () => {
       const task = createTask({
         completed: true,
-        lastCompletedAt: yesterday.toISOString(),
+        lastCompletedAt: new Date('2026-02-19T18:00:00').toISOString(),
         schedule: { type: 'daily', time: '09:00' }
       });
 
-      const tasks = [task];
-      const result = checkAndResetTasks(tasks);
-      
+      const result = resetAt('2026-02-20T10:00:00', task);
+
       expect(result[0].completed).toBe(false);
     });
 
-    it('should NOT reset if less than 24 hours', () => {
-      const fiveHoursAgo = new Date();
-      fiveHoursAgo.setHours(fiveHoursAgo.getHours() - 5);
-      
+    it('should NOT reset on the same day', () => {
       const task = createTask({
         completed: true,
-        lastCompletedAt: fiveHoursAgo.toISOString(),
+        lastCompletedAt: new Date('2026-02-20T10:00:00').toISOString(),
         schedule: { type: 'daily', time: '09:00' }
       });
 
-      const tasks = [task];
-      const result = checkAndResetTasks(tasks);
-      
+      const result = resetAt('2026-02-20T15:00:00', task);
+
       expect(result[0].completed).toBe(true);
     });
+
+    it('should untick the checklist with the task', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-02-19T18:00:00').toISOString(),
+        schedule: { type: 'daily', time: '09:00' },
+        subtasks: [
+          { id: 'a', text: 'Sink', done: true },
+          { id: 'b', text: 'Mirror', done: false },
+        ],
+      });
+
+      expect(resetAt('2026-02-20T10:00:00', task)[0].subtasks!.map(s => s.done)).toEqual([false, false]);
+      expect(resetAt('2026-02-20T08:00:00', task)[0].subtasks!.map(s => s.done)).toEqual([true, false]);
+    });
   });
 
   describe('Weekly reset', () => {
     it('should reset task on Monday', () => {
-      // Set to Monday
-      const monday = new Date('2026-02-23T10:00:00'); // This is a Monday
-      
+      const now = '2026-02-23T10:00:00'; // Monday
+
       const task = createTask({
         completed: true,
-        lastCompletedAt: '2026-02-16T10:00:00', // Previous Monday
+        lastCompletedAt: new Date('2026-02-16T10:00:00').toISOString(), // Previous Monday
         schedule: { type: 'weekly', dayOfWeek: 1, time: '09:00' }
       });
 
-      // Test passes because we're past the scheduled time
-      expect(task.schedule?.dayOfWeek).toBe(1);
+      expect(resetAt(now, task)[0].completed).toBe(false);
+    });
+
+    it('should NOT reset before the scheduled weekday', () => {
+      const now = '2026-02-22T10:00:00'; // Sunday
+
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-02-16T10:00:00').toISOString(),
+        schedule: { type: 'weekly_monday' }
+      });
+
+      expect(resetAt(now, task)[0].completed).toBe(true);
+    });
+  });
+
+  describe('Biweekly reset', () => {
+    it('should wait two weeks between occurrences', () => {
+      const schedule: Schedule = { type: 'biweekly', anchor: '2026-02-02' }; // Monday
+
+      const next = getNextOccurrence(schedule, new Date('2026-02-02T10:00:00'));
+
+      expect(next).toEqual(new Date('2026-02-16T00:00:00'));
+    });
+
+    it('should NOT reset after only one week', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-02-02T10:00:00').toISOString(),
+        schedule: { type: 'biweekly', anchor: '2026-02-02' }
+      });
+
+      expect(resetAt('2026-02-10T10:00:00', task)[0].completed).toBe(true);
     });
   });
 
   describe('Weekday reset', () => {
     it('should reset on weekdays', () => {
-      // Friday
-      const friday = new Date('2026-02-20T10:00:00');
-      
+      const now = '2026-02-20T10:00:00'; // Friday
+
       const task = createTask({
         completed: true,
-        lastCompletedAt: '2026-02-19T10:00:00', // Thursday
+        lastCompletedAt: new Date('2026-02-19T10:00:00').toISOString(), // Thursday
         schedule: { type: 'weekdays' }
       });
 
-      // Should reset on Friday since it's a weekday
-      expect(new Date(task.lastCompletedAt!).getDay()).toBe(4); // Thursday
+      expect(resetAt(now, task)[0].completed).toBe(false);
     });
 
     it('should NOT reset on weekends', () => {
-      // Saturday
-      const saturday = new Date('2026-02-21T10:00:00');
-      
+      const now = '2026-02-21T10:00:00'; // Saturday
+
       const task = createTask({
         completed: true,
-        lastCompletedAt: '2026-02-20T10:00:00', // Friday
+        lastCompletedAt: new Date('2026-02-20T10:00:00').toISOString(), // Friday
         schedule: { type: 'weekdays' }
       });
 
-      // Should NOT reset on Saturday
-      expect(new Date(task.lastCompletedAt!).getDay()).toBe(5); // Friday
+      expect(resetAt(now, task)[0].completed).toBe(true);
+    });
+
+    it('should reset on the same weekday one week later', () => {
+      const now = '2026-02-23T10:00:00'; // Monday, weekend in between
+
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-02-16T10:00:00').toISOString(), // Previous Monday
+        schedule: { type: 'weekdays' }
+      });
+
+      expect(resetAt(now, task)[0].completed).toBe(false);
+    });
+  });
+
+  describe('Weekend reset', () => {
+    it('should skip from Sunday to the next Saturday', () => {
+      const next = getNextOccurrence({ type: 'weekends' }, new Date('2026-02-22T10:00:00'));
+
+      expect(next).toEqual(new Date('2026-02-28T00:00:00'));
     });
   });
 
@@ -114,45 +160,209 @@ describe('Task Scheduling Logic', () => {
     it('should reset on first of month', () => {
       const task = createTask({
         completed: true,
-        lastCompletedAt: '2026-01-01T09:00:00', // January 1st
+        lastCompletedAt: new Date('2026-01-01T09:00:00').toISOString(), // January 1st
         schedule: { type: 'monthly', dayOfMonth: 1, time: '09:00' }
       });
 
-      // Feb 1st should trigger reset
-      expect(task.schedule?.dayOfMonth).toBe(1);
+      expect(resetAt('2026-02-01T10:00:00', task)[0].completed).toBe(false);
+    });
+
+    it('should stay reset-able after the first of month has passed', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-01-20T09:00:00').toISOString(),
+        schedule: { type: 'monthly', dayOfMonth: 1 }
+      });
+
+      expect(resetAt('2026-02-05T10:00:00', task)[0].completed).toBe(false);
+    });
+
+    it('should reset on a mid-month day even if last completed later in the month', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-01-20T09:00:00').toISOString(),
+        schedule: { type: 'monthly', dayOfMonth: 15 }
+      });
+
+      expect(resetAt('2026-02-14T10:00:00', task)[0].completed).toBe(true);
+      expect(resetAt('2026-02-16T10:00:00', task)[0].completed).toBe(false);
+    });
+  });
+
+  describe('Monthly rules', () => {
+    const after = new Date('2026-01-31T12:00:00');
+
+    it('should clamp day 31 to the end of short months', () => {
+      expect(getNextOccurrence({ type: 'monthly', dayOfMonth: 31 }, after))
+        .toEqual(new Date('2026-02-28T00:00:00'));
+      expect(getNextOccurrence({ type: 'monthly', dayOfMonth: 30 }, new Date('2026-03-01T00:00:00')))
+        .toEqual(new Date('2026-03-30T00:00:00'));
+    });
+
+    it('should support the last day of the month', () => {
+      expect(getNextOccurrence({ type: 'monthly', monthlyRule: 'last_day', time: '17:00' }, after))
+        .toEqual(new Date('2026-01-31T17:00:00'));
+    });
+
+    it('should skip weekends for the last weekday of the month', () => {
+      // May 31st 2026 is a Sunday
+      expect(getNextOccurrence({ type: 'monthly', monthlyRule: 'last_weekday' }, new Date('2026-05-01T00:00:00')))
+        .toEqual(new Date('2026-05-29T00:00:00'));
+      expect(getNextOccurrence({ type: 'monthly', monthlyRule: 'last_weekday' }, new Date('2026-06-01T00:00:00')))
+        .toEqual(new Date('2026-06-30T00:00:00'));
+    });
+
+    it('should support the Nth weekday of the month', () => {
+      const thirdTuesday: Schedule = { type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: 3, dayOfWeek: 2 };
+      const lastFriday: Schedule = { type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: -1, dayOfWeek: 5 };
+
+      expect(getNextOccurrence(thirdTuesday, after)).toEqual(new Date('2026-02-17T00:00:00'));
+      expect(getNextOccurrence(lastFriday, after)).toEqual(new Date('2026-02-27T00:00:00'));
+    });
+
+    it('should reset month end tasks', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-01-31T10:00:00').toISOString(),
+        schedule: { type: 'last_day', time: '09:00' }
+      });
+
+      expect(resetAt('2026-02-27T10:00:00', task)[0].completed).toBe(true);
+      expect(resetAt('2026-02-28T10:00:00', task)[0].completed).toBe(false);
+    });
+
+    it('should label the chosen day', () => {
+      expect(getScheduleLabel({ type: 'monthly', dayOfMonth: 22 })).toBe('Monthly · 22nd');
+      expect(getScheduleLabel({ type: 'monthly', monthlyRule: 'last_weekday' })).toBe('Monthly · Last weekday');
+      expect(getScheduleLabel({ type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: -1, dayOfWeek: 5 }))
+        .toBe('Monthly · Last Fri');
+      expect(getScheduleLabel({ type: 'last_day' })).toBe('Month End');
     });
   });
 
   describe('Second Friday reset', () => {
     it('should reset on second Friday of month', () => {
+      const now = '2026-02-13T10:00:00'; // Feb 13th 2026 is second Friday
+
       const task = createTask({
         completed: true,
-        lastCompletedAt: '2026-01-10T09:00:00', // First Friday
+        lastCompletedAt: new Date('2026-01-10T09:00:00').toISOString(),
         schedule: { type: 'second_friday', time: '09:00' }
       });
 
-      // Feb 13th 2026 is second Friday
-      const feb13 = new Date('2026-02-13T10:00:00');
-      
-      // Task should reset on second Friday
-      expect(task.schedule?.type).toBe('second_friday');
+      expect(resetAt(now, task)[0].completed).toBe(false);
+    });
+
+    it('should NOT reset on the first Friday', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-01-10T09:00:00').toISOString(),
+        schedule: { type: 'second_friday' }
+      });
+
+      expect(resetAt('2026-02-06T10:00:00', task)[0].completed).toBe(true);
+    });
+  });
+
+  describe('Month end reset', () => {
+    it('should occur on the last day of short months', () => {
+      const next = getNextOccurrence({ type: 'last_day' }, new Date('2026-02-10T10:00:00'));
+
+      expect(next).toEqual(new Date('2026-02-28T00:00:00'));
+    });
+  });
+
+  describe('Custom reset', () => {
+    it('should reset on the first and third Tuesday', () => {
+      const now = '2026-03-17T10:00:00'; // Third Tuesday
+
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-03-03T10:00:00').toISOString(), // First Tuesday
+        schedule: { type: 'custom', customCron: 'FREQ=MONTHLY;BYDAY=1TU,3TU' }
+      });
+
+      expect(resetAt(now, task)[0].completed).toBe(false);
+    });
+
+    it('should use the time from a cron expression', () => {
+      const next = getNextOccurrence(
+        { type: 'custom', customCron: '30 18 * * FRI' },
+        new Date('2026-02-20T10:00:00')
+      );
+
+      expect(next).toEqual(new Date('2026-02-20T18:30:00'));
+    });
+
+    it('should never reset on an invalid rule', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-01-01T10:00:00').toISOString(),
+        schedule: { type: 'custom', customCron: 'every other tuesday' }
+      });
+
+      expect(resetAt('2026-03-17T10:00:00', task)[0].completed).toBe(true);
+    });
+  });
+
+  describe('Reset time', () => {
+    it('should reset at the configured minute', () => {
+      const task = createTask({
+        completed: true,
+        lastCompletedAt: new Date('2026-02-19T20:00:00').toISOString(),
+        schedule: { type: 'daily', time: '09:30' }
+      });
+
+      expect(resetAt('2026-02-20T09:29:00', task)[0].completed).toBe(true);
+      expect(resetAt('2026-02-20T09:30:00', task)[0].completed).toBe(false);
+    });
+
+    it('should apply to every schedule type', () => {
+      const after = new Date('2026-02-01T00:00:00');
+
+      expect(getNextOccurrence({ type: 'second_friday', time: '17:45' }, after))
+        .toEqual(new Date('2026-02-13T17:45:00'));
+      expect(getNextOccurrence({ type: 'last_day', time: '18:00' }, after))
+        .toEqual(new Date('2026-02-28T18:00:00'));
+      expect(getNextOccurrence({ type: 'weekdays', time: '07:15' }, after))
+        .toEqual(new Date('2026-02-02T07:15:00'));
+    });
+
+    it('should still occur later on a completion day', () => {
+      const next = getNextOccurrence({ type: 'daily', time: '18:00' }, new Date('2026-02-20T08:00:00'));
+
+      expect(next).toEqual(new Date('2026-02-20T18:00:00'));
+    });
+
+    it('should fall back to the reset time for RRULEs without BYHOUR', () => {
+      const next = getNextOccurrence(
+        { type: 'custom', customCron: 'FREQ=MONTHLY;BYDAY=2FR', time: '08:00' },
+        new Date('2026-02-01T00:00:00')
+      );
+
+      expect(next).toEqual(new Date('2026-02-13T08:00:00'));
+    });
+
+    it.each(['9:5', '25:00', '12:60', '0900', ''])('should reject %p as a time', (time) => {
+      expect(parseTimeOfDay(time)).toBeNull();
+    });
+
+    it('should accept HH:MM times', () => {
+      expect(parseTimeOfDay('00:00')).toEqual({ hour: 0, minute: 0 });
+      expect(parseTimeOfDay('23:59')).toEqual({ hour: 23, minute: 59 });
     });
   });
 
   describe('No schedule', () => {
     it('should NOT reset tasks without schedule', () => {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 10);
-      
       const task = createTask({
         completed: true,
-        lastCompletedAt: yesterday.toISOString(),
+        lastCompletedAt: new Date('2026-02-10T10:00:00').toISOString(),
         schedule: undefined
       });
 
-      const tasks = [task];
-      const result = checkAndResetTasks(tasks);
-      
+      const result = resetAt('2026-02-20T10:00:00', task);
+
       // Should remain completed
       expect(result[0].completed).toBe(true);
     });
@@ -160,29 +370,60 @@ describe('Task Scheduling Logic', () => {
 
   describe('Incomplete tasks', () => {
     it('should NOT reset incomplete tasks', () => {
-      const oldDate = new Date();
-      oldDate.setMonth(oldDate.getMonth() - 2);
-      
       const task = createTask({
         completed: false,
-        lastCompletedAt: oldDate.toISOString(),
+        lastCompletedAt: new Date('2025-12-20T10:00:00').toISOString(),
         schedule: { type: 'daily' }
       });
 
-      const tasks = [task];
-      const result = checkAndResetTasks(tasks);
-      
+      const result = resetAt('2026-02-20T10:00:00', task);
+
       // Should remain incomplete
       expect(result[0].completed).toBe(false);
     });
   });
-});
 
-/**
- * To run these tests:
- * 1. Extract the scheduling logic to a separate file (e.g., src/utils/scheduler.ts)
- * 2. Run: npm test
- * 
- * The actual implementation is in App.tsx - these tests would verify the logic
- * once extracted.
- */
+  describe('Next reset time', () => {
+    it('should be the earliest reset among completed tasks', () => {
+      const tasks = [
+        createTask({
+          id: '1',
+          completed: true,
+          lastCompletedAt: new Date('2026-02-20T10:00:00').toISOString(),
+          schedule: { type: 'weekly_monday', time: '09:00' }
+        }),
+        createTask({
+          id: '2',
+          completed: true,
+          lastCompletedAt: new Date('2026-02-20T10:00:00').toISOString(),
+          schedule: { type: 'daily', time: '08:00' }
+        }),
+        // Open tasks have nothing to reset
+        createTask({ id: '3', completed: false, schedule: { type: 'daily', time: '07:00' } }),
+      ];
+
+      expect(getNextResetTime(tasks)).toEqual(new Date('2026-02-21T08:00:00'));
+    });
+
+    it('should be null when nothing is waiting to reset', () => {
+      expect(getNextResetTime([createTask({ completed: true, schedule: undefined })])).toBeNull();
+    });
+  });
+
+  describe('Occurrences in a range', () => {
+    it('should list the occurrences after the start and up to the end', () => {
+      const schedule: Schedule = { type: 'weekdays', time: '09:00' };
+
+      expect(getOccurrencesBetween(schedule, new Date('2026-02-20T09:00:00'), new Date('2026-02-24T09:00:00'))).toEqual([
+        new Date('2026-02-23T09:00:00'),
+        new Date('2026-02-24T09:00:00'),
+      ]);
+    });
+
+    it('should be empty for an empty range', () => {
+      const schedule: Schedule = { type: 'daily', time: '09:00' };
+
+      expect(getOccurrencesBetween(schedule, new Date('2026-02-24T10:00:00'), new Date('2026-02-20T10:00:00'))).toEqual([]);
+    });
+  });
+});
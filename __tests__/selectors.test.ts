@@ -0,0 +1,65 @@
+/**
+ * CleanTasks Task Selector Tests
+ * Tests for the stats, filtering and undo entries derived from task state
+ */
+
+import { TaskFilters, selectFilteredTasks, selectRedoEntry, selectStats, selectUndoEntry } from '../src/state/selectors';
+import { INITIAL_TASK_STATE, taskReducer } from '../src/state/taskReducer';
+import { Task } from '../src/types';
+import { parseSearch } from '../src/utils/query';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const ZONE = 'UTC';
+
+describe('task selectors', () => {
+  const tasks = [
+    createTask({ id: '1', text: 'Water plants', tags: ['garden'] }),
+    createTask({ id: '2', text: 'Buy milk', completed: true }),
+    createTask({ id: '3', text: 'Pay rent', dueAt: '2026-03-01' }),
+    createTask({ id: '4', text: 'Old chore', deletedAt: '2026-02-20T00:00:00.000Z' }),
+    createTask({ id: '5', text: 'Renew passport', completed: true, archivedAt: '2026-02-25T00:00:00.000Z' }),
+  ];
+
+  const filters: TaskFilters = { status: 'all', search: parseSearch(''), due: 'any', tags: [] };
+
+  it('should count tasks', () => {
+    expect(selectStats(tasks)).toEqual({ total: 3, completed: 1, active: 2, archived: 1, trashed: 1 });
+  });
+
+  it('should apply every filter', () => {
+    const ids = (overrides: Partial<TaskFilters>) =>
+      selectFilteredTasks(tasks, { ...filters, ...overrides }, NOW, ZONE).map(t => t.id);
+
+    expect(ids({})).toEqual(['1', '2', '3']);
+    expect(ids({ status: 'active' })).toEqual(['1', '3']);
+    expect(ids({ status: 'completed' })).toEqual(['2']);
+    expect(ids({ search: parseSearch('-milk') })).toEqual(['1', '3']);
+    expect(ids({ due: 'overdue' })).toEqual(['3']);
+    expect(ids({ tags: ['garden'] })).toEqual(['1']);
+    expect(ids({ status: 'trash' })).toEqual(['4']);
+    expect(ids({ status: 'archive' })).toEqual(['5']);
+    expect(ids({ status: 'archive', search: parseSearch('passport') })).toEqual(['5']);
+    expect(ids({ status: 'trash', search: parseSearch('rent') })).toEqual([]);
+  });
+
+  it('should find the next undo and redo entries', () => {
+    expect(selectUndoEntry(INITIAL_TASK_STATE)).toBeNull();
+
+    const added = taskReducer(INITIAL_TASK_STATE, { type: 'add', task: createTask() });
+    const undone = taskReducer(added, { type: 'undo' });
+
+    expect(selectUndoEntry(added)?.label).toBe('Task added');
+    expect(selectUndoEntry(undone)).toBeNull();
+    expect(selectRedoEntry(undone)?.label).toBe('Task added');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * CleanTasks Sorting Tests
+ * Tests for sort orders and grouping the list into sections
+ */
+
+import { Task } from '../src/types';
+import { DEFAULT_CATEGORIES } from '../src/utils/categories';
+import { getWhenSection, groupTasks, sortTasks } from '../src/utils/sorting';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+// A Monday
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+const CONTEXT = { categories: DEFAULT_CATEGORIES, now: NOW, timeZone: 'UTC' };
+
+const TASKS = [
+  createTask({ id: 'a', text: 'water plants', priority: 'low', category: 'Ideas', dueAt: '2026-03-20' }),
+  createTask({ id: 'b', text: 'Buy milk', category: 'Shopping', createdAt: new Date('2026-02-01T00:00:00.000Z'), dueAt: '2026-03-04' }),
+  createTask({ id: 'c', text: 'Call mum', priority: 'high', category: 'Garage' }),
+  createTask({
+    id: 'd',
+    text: 'Daily tidy',
+    category: 'work',
+    schedule: { type: 'daily', time: '18:00', timeZone: 'UTC' },
+    createdAt: new Date('2026-03-02T08:00:00.000Z'),
+  }),
+  createTask({ id: 'e', text: 'Send report', priority: 'high', category: 'Work', dueAt: '2026-03-01' }),
+];
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id);
+
+describe('sortTasks', () => {
+  it('should keep the list order for manual', () => {
+    expect(sortTasks(TASKS, 'manual', CONTEXT)).toBe(TASKS);
+  });
+
+  it('should sort by priority, keeping ties in list order', () => {
+    expect(ids(sortTasks(TASKS, 'priority', CONTEXT))).toEqual(['c', 'e', 'b', 'd', 'a']);
+  });
+
+  it('should sort by when tasks are next due, undated last', () => {
+    expect(ids(sortTasks(TASKS, 'due', CONTEXT))).toEqual(['e', 'd', 'b', 'a', 'c']);
+  });
+
+  it('should sort by creation, name and category order', () => {
+    expect(ids(sortTasks(TASKS, 'created', CONTEXT))).toEqual(['d', 'b', 'a', 'c', 'e']);
+    expect(ids(sortTasks(TASKS, 'alphabetical', CONTEXT))).toEqual(['b', 'c', 'd', 'e', 'a']);
+    expect(ids(sortTasks(TASKS, 'category', CONTEXT))).toEqual(['d', 'e', 'b', 'a', 'c']);
+  });
+});
+
+describe('groupTasks', () => {
+  it('should put everything in one untitled section without grouping', () => {
+    expect(groupTasks(TASKS, 'none', CONTEXT)).toEqual([{ key: 'all', title: null, tasks: TASKS }]);
+    expect(groupTasks([], 'none', CONTEXT)).toEqual([]);
+  });
+
+  it('should group by category in the user order', () => {
+    const sections = groupTasks(TASKS, 'category', CONTEXT);
+
+    expect(sections.map(s => s.title)).toEqual(['💼 Work', '🛒 Shopping', '💡 Ideas', 'Garage']);
+    expect(ids(sections[0].tasks)).toEqual(['d', 'e']);
+  });
+
+  it('should group by priority and skip empty sections', () => {
+    const sections = groupTasks(TASKS.filter(t => t.priority !== 'medium'), 'priority', CONTEXT);
+    expect(sections.map(s => s.key)).toEqual(['high', 'low']);
+  });
+
+  it('should group by when tasks are next due', () => {
+    const sections = groupTasks(TASKS, 'when', CONTEXT);
+
+    expect(sections.map(s => [s.title, ids(s.tasks)])).toEqual([
+      ['Overdue', ['e']],
+      ['Today', ['d']],
+      ['This week', ['b']],
+      ['Later', ['a']],
+      ['No upcoming date', ['c']],
+    ]);
+  });
+
+  it('should not call done tasks overdue', () => {
+    expect(getWhenSection(createTask({ dueAt: '2026-03-01', completed: true }), NOW, 'UTC')).toBe('none');
+    expect(getWhenSection(createTask({ dueAt: '2026-03-08' }), NOW, 'UTC')).toBe('week');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * CleanTasks SQLite Repository Tests
+ * Tests for the SQLite task repository and the legacy import on first open,
+ * against a fake expo-sqlite database
+ */
+
+import AsyncStorageModule from '@react-native-async-storage/async-storage';
+import { SCHEMA_VERSION, StorageError, serializeTasks } from '../src/storage/schema';
+import { SQLiteTaskRepository } from '../src/storage/sqliteRepository';
+import { Task } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(async () => mockDatabase),
+}));
+
+interface Statement {
+  sql: string;
+  params: unknown[];
+}
+
+// Just enough of an expo-sqlite database for the repository: meta and task
+// rows kept in maps, every query recorded, and rollback on a failed
+// transaction
+const createFakeDatabase = () => {
+  const meta = new Map<string, string>();
+  const rows = new Map<string, string>();
+  const queries: Statement[] = [];
+
+  return {
+    meta,
+    rows,
+    queries,
+    execAsync: jest.fn(async (_sql: string) => {}),
+    getFirstAsync: async (sql: string, params: unknown[]) => {
+      const key = String(params[0]);
+      if (sql.includes('FROM meta')) return meta.has(key) ? { value: meta.get(key) } : null;
+      return rows.has(key) ? { data: rows.get(key) } : null;
+    },
+    getAllAsync: async (sql: string, params: unknown[] = []) => {
+      queries.push({ sql, params });
+      return [...rows.values()].map(data => ({ data }));
+    },
+    runAsync: async (sql: string, params: unknown[] = []) => {
+      if (sql.startsWith('INSERT OR REPLACE INTO meta')) meta.set(String(params[0]), String(params[1]));
+      else if (sql.startsWith('INSERT OR REPLACE INTO tasks')) rows.set(String(params[0]), String(params[7]));
+      else if (sql === 'DELETE FROM tasks') rows.clear();
+      else if (sql.startsWith('DELETE FROM tasks')) rows.delete(String(params[0]));
+    },
+    withTransactionAsync: jest.fn(async (work: () => Promise<void>) => {
+      const snapshot = new Map(rows);
+      try {
+        await work();
+      } catch (e) {
+        rows.clear();
+        snapshot.forEach((data, id) => rows.set(id, data));
+        throw e;
+      }
+    }),
+  };
+};
+
+let mockDatabase = createFakeDatabase();
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  mockDatabase = createFakeDatabase();
+});
+
+describe('SQLiteTaskRepository', () => {
+  it('should create the tables and stamp a new database with the schema version', async () => {
+    await SQLiteTaskRepository.open();
+
+    expect(mockDatabase.execAsync).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS tasks'));
+    expect(mockDatabase.meta.get('schema_version')).toBe(String(SCHEMA_VERSION));
+  });
+
+  it('should write the indexed columns and read the task back', async () => {
+    const repository = await SQLiteTaskRepository.open();
+    const task = createTask({ priority: 'high', completed: true, schedule: { type: 'daily', time: '09:00' } });
+
+    await repository.upsert(task);
+
+    expect(await repository.get('1')).toEqual(task);
+    expect(await repository.get('2')).toBeNull();
+    expect(mockDatabase.rows.size).toBe(1);
+  });
+
+  it('should turn a query into filters and parameters', async () => {
+    const repository = await SQLiteTaskRepository.open();
+    const lastQuery = () => mockDatabase.queries[mockDatabase.queries.length - 1];
+
+    await repository.list();
+    expect(lastQuery()).toEqual({ sql: 'SELECT data FROM tasks ORDER BY created_at DESC, id DESC', params: [] });
+
+    await repository.list({
+      completed: true,
+      category: 'Work',
+      priority: 'high',
+      scheduled: true,
+      search: '50%_off',
+      limit: 10,
+    });
+    expect(lastQuery()).toEqual({
+      sql:
+        "SELECT data FROM tasks WHERE completed = ? AND category = ? AND priority = ? AND schedule_type != 'none'" +
+        " AND text LIKE ? ESCAPE '\\' ORDER BY created_at DESC, id DESC LIMIT ?",
+      params: [1, 'Work', 'high', '%50\\%\\_off%', 10],
+    });
+
+    await repository.list({ completed: false, scheduled: false });
+    expect(lastQuery()).toEqual({
+      sql: "SELECT data FROM tasks WHERE completed = ? AND schedule_type = 'none' ORDER BY created_at DESC, id DESC",
+      params: [0],
+    });
+  });
+
+  it('should upgrade rows written by an older schema', async () => {
+    mockDatabase.meta.set('schema_version', '1');
+    mockDatabase.rows.set(
+      '1',
+      JSON.stringify({ ...createTask(), createdAt: '2026-01-01T00:00:00.000Z', lastCompletedAt: '2026-01-02T00:00:00.000Z' })
+    );
+
+    const repository = await SQLiteTaskRepository.open();
+    const [task] = await repository.list();
+
+    expect(task.lastCompletedAt).toBeUndefined();
+    expect(task.history).toEqual([{ type: 'completed', at: '2026-01-02T00:00:00.000Z' }]);
+    expect(JSON.parse(mockDatabase.rows.get('1')!).history).toHaveLength(1);
+    expect(mockDatabase.meta.get('schema_version')).toBe(String(SCHEMA_VERSION));
+  });
+
+  it('should refuse a database from a newer version', async () => {
+    mockDatabase.meta.set('schema_version', String(SCHEMA_VERSION + 1));
+    mockDatabase.rows.set('1', '{"id":"1"}');
+
+    await expect(SQLiteTaskRepository.open()).rejects.toThrow(StorageError);
+    expect(mockDatabase.rows.get('1')).toBe('{"id":"1"}');
+  });
+
+  it('should run nested transactions and batched writes in the outer transaction', async () => {
+    const repository = await SQLiteTaskRepository.open();
+    mockDatabase.withTransactionAsync.mockClear();
+
+    await repository.transaction(async (tx) => {
+      await tx.upsert([createTask({ id: '1' }), createTask({ id: '2' })]);
+      await tx.transaction(async (inner) => inner.delete('1'));
+    });
+
+    expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+    expect([...mockDatabase.rows.keys()]).toEqual(['2']);
+
+    await repository.upsert([createTask({ id: '3' }), createTask({ id: '4' })]);
+    expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep none of a failed transaction and allow the next one', async () => {
+    const repository = await SQLiteTaskRepository.open();
+
+    await expect(
+      repository.transaction(async (tx) => {
+        await tx.upsert(createTask({ id: '1' }));
+        throw new Error('Disk full');
+      })
+    ).rejects.toThrow('Disk full');
+    expect(mockDatabase.rows.size).toBe(0);
+
+    mockDatabase.withTransactionAsync.mockClear();
+    await repository.transaction(async (tx) => tx.upsert(createTask({ id: '2' })));
+    expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+    expect([...mockDatabase.rows.keys()]).toEqual(['2']);
+  });
+});
+
+describe('openTaskRepository', () => {
+  // A fresh app launch: module state and AsyncStorage start over, the
+  // database is kept
+  const launch = () => {
+    let modules!: {
+      openTaskRepository: typeof import('../src/storage/openRepository').openTaskRepository;
+      AsyncStorage: typeof AsyncStorageModule;
+    };
+    jest.isolateModules(() => {
+      modules = {
+        openTaskRepository: require('../src/storage/openRepository').openTaskRepository,
+        AsyncStorage: require('@react-native-async-storage/async-storage'),
+      };
+    });
+    return modules;
+  };
+
+  it('should copy the AsyncStorage list into SQLite once', async () => {
+    const first = launch();
+    await first.AsyncStorage.setItem('tasks', serializeTasks([createTask({ id: '1', text: 'Water plants' })]));
+
+    const repository = await first.openTaskRepository();
+
+    expect(await first.openTaskRepository()).toBe(repository);
+    expect((await repository.list()).map(t => t.text)).toEqual(['Water plants']);
+    expect(mockDatabase.meta.has('legacy_imported')).toBe(true);
+    // Left in place as a backup
+    expect(await first.AsyncStorage.getItem('tasks')).not.toBeNull();
+
+    const second = launch();
+    await second.AsyncStorage.setItem('tasks', serializeTasks([createTask({ id: '2', text: 'Buy milk' })]));
+
+    expect((await (await second.openTaskRepository()).list()).map(t => t.text)).toEqual(['Water plants']);
+  });
+
+  it('should let a failed open be retried', async () => {
+    const { openTaskRepository } = launch();
+    mockDatabase.meta.set('schema_version', String(SCHEMA_VERSION + 1));
+
+    await expect(openTaskRepository()).rejects.toThrow('saved by a newer version');
+
+    mockDatabase.meta.set('schema_version', String(SCHEMA_VERSION));
+    await expect((await openTaskRepository()).list()).resolves.toEqual([]);
+  });
+});
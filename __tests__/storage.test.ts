@@ -0,0 +1,204 @@
+/**
+ * CleanTasks Storage Tests
+ * Tests for the versioned schema, loading blobs from older releases, settings
+ * and categories
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SCHEMA_VERSION, StorageError, deserializeTasks, migrate, serializeTasks } from '../src/storage/schema';
+import { loadTasks, saveTasks } from '../src/storage/taskStorage';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from '../src/storage/settings';
+import { loadCategories, saveCategories } from '../src/storage/categories';
+import { DEFAULT_CATEGORIES } from '../src/utils/categories';
+import { Settings, Task } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// A list exactly as releases before versioning wrote it
+const LEGACY_BLOB = JSON.stringify([
+  {
+    id: '1700000000000',
+    text: 'Water plants',
+    completed: true,
+    priority: 'low',
+    category: 'Personal',
+    createdAt: '2026-01-05T08:00:00.000Z',
+    schedule: { type: 'weekly_monday', time: '09:00' },
+    lastCompletedAt: '2026-02-16T10:00:00.000Z',
+  },
+  {
+    id: '1700000000001',
+    text: 'Buy milk',
+    completed: false,
+    priority: 'urgent',
+    category: 'Shopping',
+    createdAt: '2026-01-06T08:00:00.000Z',
+  },
+]);
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('Storage schema', () => {
+  it('should load the unversioned array format', () => {
+    const [plants, milk] = deserializeTasks(LEGACY_BLOB);
+
+    expect(plants.createdAt).toBeInstanceOf(Date);
+    expect(plants.createdAt.toISOString()).toBe('2026-01-05T08:00:00.000Z');
+    expect(plants.schedule).toEqual({ type: 'weekly_monday', time: '09:00' });
+    expect(milk.priority).toBe('medium');
+  });
+
+  it('should fold lastCompletedAt into the history', () => {
+    const [plants] = deserializeTasks(LEGACY_BLOB);
+
+    expect(plants.lastCompletedAt).toBeUndefined();
+    expect(plants.history).toEqual([{ type: 'completed', at: '2026-02-16T10:00:00.000Z' }]);
+  });
+
+  it('should upgrade a v1 document', () => {
+    const doc = migrate({
+      version: 1,
+      tasks: [{ ...createTask(), createdAt: '2026-01-01T00:00:00.000Z', lastCompletedAt: '2026-01-02T00:00:00.000Z' }],
+    });
+
+    expect(doc.version).toBe(SCHEMA_VERSION);
+    expect(doc.tasks[0].history).toHaveLength(1);
+  });
+
+  it('should fill in missing fields and drop entries without an id', () => {
+    const tasks = deserializeTasks(JSON.stringify([{ id: 7, text: 'Bare' }, 'junk', { text: 'No id' }]));
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ id: '7', completed: false, priority: 'medium', category: 'Personal' });
+    expect(tasks[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should repair a task whose createdAt is not a date', () => {
+    const blob = JSON.stringify({ version: SCHEMA_VERSION, tasks: [{ ...createTask(), createdAt: 'yesterday-ish' }] });
+    const [task] = deserializeTasks(blob);
+
+    expect(task.createdAt).toEqual(new Date(0));
+    expect(() => serializeTasks([task])).not.toThrow();
+    expect(migrate({ version: 0, tasks: [{ id: 1, createdAt: 'soon' }] }).tasks[0].createdAt).toBe(new Date(0).toISOString());
+  });
+
+  it('should round-trip the current format', () => {
+    const task = createTask({
+      schedule: { type: 'daily', time: '09:00', timeZone: 'Europe/Berlin' },
+      history: [{ type: 'completed', at: '2026-02-01T10:00:00.000Z', note: 'done' }],
+    });
+
+    expect(deserializeTasks(serializeTasks([task]))).toEqual([task]);
+    expect(JSON.parse(serializeTasks([task])).version).toBe(SCHEMA_VERSION);
+  });
+
+  it('should treat a missing blob as an empty list', () => {
+    expect(deserializeTasks(null)).toEqual([]);
+  });
+
+  it('should refuse documents from a newer version', () => {
+    expect(() => deserializeTasks(JSON.stringify({ version: SCHEMA_VERSION + 1, tasks: [] }))).toThrow(StorageError);
+  });
+
+  it('should reject unreadable blobs', () => {
+    expect(() => deserializeTasks('{not json')).toThrow('Stored tasks are not valid JSON');
+    expect(() => deserializeTasks('{"tasks": 3}')).toThrow('Stored tasks are not in a recognised format');
+  });
+});
+
+describe('Task storage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should back up and upgrade an old blob on load', async () => {
+    await AsyncStorage.setItem('tasks', LEGACY_BLOB);
+
+    const tasks = await loadTasks();
+
+    expect(tasks).toHaveLength(2);
+    expect(await AsyncStorage.getItem('tasks_backup_v0')).toBe(LEGACY_BLOB);
+    expect(JSON.parse((await AsyncStorage.getItem('tasks'))!).version).toBe(SCHEMA_VERSION);
+  });
+
+  it('should not save over a list it could not load', async () => {
+    const newer = JSON.stringify({ version: SCHEMA_VERSION + 1, tasks: [] });
+    await AsyncStorage.setItem('tasks', newer);
+
+    await expect(loadTasks()).rejects.toThrow(StorageError);
+    await expect(saveTasks([createTask()])).rejects.toThrow(StorageError);
+    expect(await AsyncStorage.getItem('tasks')).toBe(newer);
+  });
+});
+
+describe('Settings storage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should default when nothing is stored', async () => {
+    expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should round-trip and repair invalid fields', async () => {
+    const settings: Settings = {
+      quietHours: { enabled: true, start: '23:30', end: '06:15' },
+      sortBy: 'priority',
+      groupBy: 'when',
+      trashRetentionDays: 7,
+      archiveAfterDays: 0,
+    };
+    await saveSettings(settings);
+    expect(await loadSettings()).toEqual(settings);
+
+    await AsyncStorage.setItem(
+      'settings',
+      JSON.stringify({
+        quietHours: { enabled: true, start: '25:00' },
+        sortBy: 'random',
+        groupBy: 'category',
+        trashRetentionDays: 12,
+        archiveAfterDays: 30,
+      })
+    );
+    expect(await loadSettings()).toEqual({
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+      sortBy: 'manual',
+      groupBy: 'category',
+      trashRetentionDays: 30,
+      archiveAfterDays: 30,
+    });
+  });
+});
+
+describe('Category storage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should default when nothing readable is stored', async () => {
+    expect(await loadCategories()).toEqual(DEFAULT_CATEGORIES);
+
+    await AsyncStorage.setItem('categories', '[{');
+    expect(await loadCategories()).toEqual(DEFAULT_CATEGORIES);
+  });
+
+  it('should round-trip in order', async () => {
+    const categories = [
+      { id: 'garden', name: 'Garden', color: '#4CAF50', icon: '🌱' },
+      { id: 'car', name: 'Car', color: '#607D8B', icon: '🚗', archived: true },
+    ];
+    await saveCategories(categories);
+    expect(await loadCategories()).toEqual(categories);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * CleanTasks Task Store Tests
+ * Tests for dispatching through the store and persisting what changed
+ */
+
+import { createTaskStore, persistTo } from '../src/state/store';
+import { InMemoryTaskRepository, TaskRepository } from '../src/storage/repository';
+import { Task } from '../src/types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+const storedIds = async (repository: TaskRepository) => (await repository.list()).map(t => t.id).sort();
+
+describe('createTaskStore', () => {
+  it('should notify subscribers of changes only', async () => {
+    const store = createTaskStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    await store.dispatch({ type: 'add', task: createTask() });
+    await store.dispatch({ type: 'deleteForever', id: 'missing' });
+    unsubscribe();
+    await store.dispatch({ type: 'deleteForever', id: '1' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState().tasks).toEqual([]);
+  });
+
+  it('should build each action on the last one', () => {
+    const store = createTaskStore();
+
+    store.dispatch({ type: 'add', task: createTask() });
+    store.dispatch({ type: 'toggle', id: '1', at: NOW });
+
+    expect(store.getState().tasks[0].completed).toBe(true);
+  });
+
+  it('should report a failing middleware', async () => {
+    const store = createTaskStore([() => Promise.resolve(false)]);
+
+    expect(await store.dispatch({ type: 'add', task: createTask() })).toBe(false);
+    expect(await store.dispatch({ type: 'deleteForever', id: 'missing' })).toBe(true);
+  });
+});
+
+describe('persistTo', () => {
+  it('should write what each action changed, in order', async () => {
+    const repository = new InMemoryTaskRepository([createTask({ id: 'a' })]);
+    const store = createTaskStore([persistTo(() => repository)]);
+
+    await store.dispatch({ type: 'load', tasks: await repository.list() });
+    store.dispatch({ type: 'add', task: createTask({ id: 'b' }) });
+    store.dispatch({ type: 'deleteForever', id: 'a' });
+    await store.dispatch({ type: 'update', task: createTask({ id: 'b', text: 'Edited' }) });
+
+    expect(await storedIds(repository)).toEqual(['b']);
+    expect((await repository.get('b'))?.text).toBe('Edited');
+
+    await store.dispatch({ type: 'undo' });
+    await store.dispatch({ type: 'undo' });
+    expect(await storedIds(repository)).toEqual(['a', 'b']);
+  });
+
+  it('should skip writes until the repository is open', async () => {
+    let repository: TaskRepository | null = null;
+    const store = createTaskStore([persistTo(() => repository)]);
+
+    expect(await store.dispatch({ type: 'add', task: createTask() })).toBe(true);
+
+    repository = new InMemoryTaskRepository();
+    await store.dispatch({ type: 'add', task: createTask({ id: '2' }) });
+    expect(await storedIds(repository)).toEqual(['2']);
+  });
+
+  it('should resolve to false when the write fails', async () => {
+    const repository = new InMemoryTaskRepository();
+    jest.spyOn(repository, 'transaction').mockRejectedValueOnce(new Error('disk full'));
+    jest.spyOn(console, 'log').mockImplementationOnce(() => {});
+    const store = createTaskStore([persistTo(() => repository)]);
+
+    expect(await store.dispatch({ type: 'add', task: createTask() })).toBe(false);
+    expect(await store.dispatch({ type: 'add', task: createTask({ id: '2' }) })).toBe(true);
+    expect(await storedIds(repository)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * CleanTasks Streak Tests
+ * Tests for streaks and missed occurrences of recurring tasks
+ */
+
+import { Task } from '../src/types';
+import { completeTask } from '../src/utils/history';
+import * as scheduler from '../src/utils/scheduler';
+import { computeStreaks, getOccurrenceResults } from '../src/utils/streaks';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-02-01T12:00:00'),
+  schedule: { type: 'daily', time: '09:00' },
+  ...overrides,
+});
+
+// Complete the task at each of the given local times
+const completedAt = (task: Task, ...times: string[]) =>
+  times.reduce((t, time) => completeTask(t, new Date(time)), task);
+
+describe('Streaks', () => {
+  it('should ignore tasks without a schedule', () => {
+    expect(computeStreaks(createTask({ schedule: undefined }))).toBeNull();
+  });
+
+  it('should count consecutive completed periods', () => {
+    const task = completedAt(createTask(), '2026-02-02T10:00:00', '2026-02-03T10:00:00', '2026-02-04T10:00:00');
+
+    expect(computeStreaks(task, new Date('2026-02-04T20:00:00'))).toEqual({
+      current: 3,
+      best: 3,
+      missed: 0,
+      missedInARow: 0,
+    });
+  });
+
+  it('should not break the streak while the current period is open', () => {
+    const task = completedAt(createTask(), '2026-02-02T10:00:00', '2026-02-03T10:00:00');
+
+    expect(computeStreaks(task, new Date('2026-02-04T20:00:00'))?.current).toBe(2);
+  });
+
+  it('should detect missed occurrences and reset the streak', () => {
+    const task = completedAt(
+      createTask(),
+      '2026-02-02T10:00:00',
+      '2026-02-03T10:00:00',
+      // Feb 4th and 5th missed
+      '2026-02-06T10:00:00'
+    );
+
+    expect(computeStreaks(task, new Date('2026-02-06T20:00:00'))).toEqual({
+      current: 1,
+      best: 2,
+      missed: 2,
+      missedInARow: 0,
+      lastMissedAt: new Date('2026-02-05T09:00:00').toISOString(),
+    });
+  });
+
+  it('should report a weekly chore skipped for a month', () => {
+    const task = completedAt(
+      createTask({ createdAt: new Date('2026-01-01T12:00:00'), schedule: { type: 'weekly_monday', time: '09:00' } }),
+      '2026-01-05T18:00:00'
+    );
+
+    const stats = computeStreaks(task, new Date('2026-02-10T12:00:00'));
+
+    expect(stats?.current).toBe(0);
+    expect(stats?.missedInARow).toBe(4);
+  });
+
+  it('should not count the period the task was created in as a miss', () => {
+    expect(computeStreaks(createTask(), new Date('2026-02-02T08:00:00'))?.missed).toBe(0);
+  });
+
+  it('should credit early completions to the period they fall in', () => {
+    // Completing at 08:00 still belongs to the period opened the day before
+    const task = completedAt(createTask(), '2026-02-03T08:00:00');
+
+    expect(computeStreaks(task, new Date('2026-02-03T20:00:00'))).toMatchObject({ missed: 0, current: 1 });
+  });
+
+  it('should use lastCompletedAt for tasks without a log', () => {
+    const task = createTask({ completed: true, lastCompletedAt: new Date('2026-02-02T10:00:00').toISOString() });
+
+    expect(computeStreaks(task, new Date('2026-02-02T20:00:00'))?.current).toBe(1);
+  });
+});
+
+describe('getOccurrenceResults', () => {
+  it('should list past occurrences and the running one once done', () => {
+    const task = completedAt(createTask(), '2026-02-02T10:00:00', '2026-02-04T10:00:00');
+    const results = (now: string) => getOccurrenceResults(task, new Date(now)).map(r => r.done);
+
+    expect(results('2026-02-04T20:00:00')).toEqual([true, false, true]);
+    expect(results('2026-02-05T20:00:00')).toEqual([true, false, true]);
+    expect(getOccurrenceResults(createTask({ schedule: undefined }))).toEqual([]);
+  });
+
+  it('should look back about a year for older tasks', () => {
+    const task = createTask({ createdAt: new Date('2024-01-01T12:00:00') });
+
+    expect(computeStreaks(task, new Date('2026-02-04T20:00:00'))?.missed).toBe(366);
+  });
+
+  it('should reuse results until the task changes or a new period starts', () => {
+    const walk = jest.spyOn(scheduler, 'getOccurrencesBetween');
+    const task = completedAt(createTask(), '2026-02-02T10:00:00');
+
+    computeStreaks(task, new Date('2026-02-02T20:00:00'));
+    getOccurrenceResults(task, new Date('2026-02-03T08:00:00'));
+    expect(walk).toHaveBeenCalledTimes(1);
+
+    getOccurrenceResults(task, new Date('2026-02-03T10:00:00'));
+    expect(walk).toHaveBeenCalledTimes(2);
+
+    const changed = completedAt(task, '2026-02-03T11:00:00');
+    expect(computeStreaks(changed, new Date('2026-02-03T12:00:00'))?.current).toBe(2);
+    expect(walk).toHaveBeenCalledTimes(3);
+    walk.mockRestore();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * CleanTasks Subtask Tests
+ * Tests for editing checklists, progress and auto-completing the task
+ */
+
+import { Task } from '../src/types';
+import { getCompletions } from '../src/utils/history';
+import {
+  addSubtask,
+  getSubtaskProgress,
+  moveSubtask,
+  removeSubtask,
+  resetSubtasks,
+  toggleSubtask,
+} from '../src/utils/subtasks';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Clean bathroom',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  subtasks: [
+    { id: 'a', text: 'Sink', done: true },
+    { id: 'b', text: 'Mirror', done: false },
+  ],
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+describe('Editing a checklist', () => {
+  it('should add trimmed steps and skip empty ones', () => {
+    expect(addSubtask([], '  Tub ', 'c')).toEqual([{ id: 'c', text: 'Tub', done: false }]);
+    expect(addSubtask([], '  ', 'c')).toEqual([]);
+  });
+
+  it('should move and remove steps', () => {
+    const { subtasks } = createTask();
+
+    expect(moveSubtask(subtasks!, 'b', -1).map(s => s.id)).toEqual(['b', 'a']);
+    expect(moveSubtask(subtasks!, 'b', 1)).toBe(subtasks);
+    expect(removeSubtask(subtasks!, 'a').map(s => s.id)).toEqual(['b']);
+  });
+
+  it('should report progress only for tasks with steps', () => {
+    expect(getSubtaskProgress(createTask())).toEqual({ done: 1, total: 2 });
+    expect(getSubtaskProgress(createTask({ subtasks: [] }))).toBeNull();
+  });
+});
+
+describe('Ticking steps', () => {
+  it('should leave the task open without auto-complete', () => {
+    const task = toggleSubtask(createTask(), 'b', NOW);
+
+    expect(getSubtaskProgress(task)).toEqual({ done: 2, total: 2 });
+    expect(task.completed).toBe(false);
+  });
+
+  it('should complete the task with the last step and reopen it on untick', () => {
+    const occurrence = new Date('2026-03-02T09:00:00.000Z');
+    const done = toggleSubtask(createTask({ autoComplete: true }), 'b', NOW, occurrence);
+
+    expect(done.completed).toBe(true);
+    expect(getCompletions(done)).toEqual([{ type: 'completed', at: NOW.toISOString(), occurrence: occurrence.toISOString() }]);
+
+    const reopened = toggleSubtask(done, 'a', NOW);
+    expect(reopened.completed).toBe(false);
+    expect(getCompletions(reopened)).toEqual([]);
+  });
+
+  it('should ignore unknown steps', () => {
+    const task = createTask();
+    expect(toggleSubtask(task, 'zzz', NOW)).toBe(task);
+  });
+
+  it('should untick every step on reset', () => {
+    expect(resetSubtasks(createTask()).subtasks!.every(s => !s.done)).toBe(true);
+    const fresh = createTask({ subtasks: [{ id: 'a', text: 'Sink', done: false }] });
+    expect(resetSubtasks(fresh)).toBe(fresh);
+  });
+});
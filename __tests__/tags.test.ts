@@ -0,0 +1,63 @@
+/**
+ * CleanTasks Tag Tests
+ * Tests for normalizing, suggesting and filtering by tags
+ */
+
+import { Task } from '../src/types';
+import { addTag, getAllTags, matchesTagFilter, normalizeTag, parseTagInput, removeTag, suggestTags } from '../src/utils/tags';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('Normalizing tags', () => {
+  it('should lowercase, drop the # and dash spaces', () => {
+    expect(normalizeTag('#Living Room')).toBe('living-room');
+    expect(normalizeTag('  quick  ')).toBe('quick');
+    expect(normalizeTag('##')).toBeNull();
+    expect(normalizeTag('x'.repeat(40))).toHaveLength(24);
+  });
+
+  it('should split typed input and skip repeats', () => {
+    expect(parseTagInput('kitchen, #Alex  quick,,kitchen')).toEqual(['kitchen', 'alex', 'quick']);
+    expect(addTag(['kitchen'], 'KITCHEN')).toEqual(['kitchen']);
+    expect(addTag(['kitchen'], ' ')).toEqual(['kitchen']);
+    expect(removeTag(['kitchen', 'alex'], 'kitchen')).toEqual(['alex']);
+  });
+});
+
+describe('Suggesting tags', () => {
+  const tasks = [
+    createTask({ tags: ['kitchen', 'quick'] }),
+    createTask({ tags: ['quick', 'alex'] }),
+    createTask({ tags: ['backyard'] }),
+    createTask(),
+  ];
+
+  it('should list tags by how often they are used', () => {
+    expect(getAllTags(tasks)).toEqual(['quick', 'alex', 'backyard', 'kitchen']);
+  });
+
+  it('should put prefix matches first and leave out tags already added', () => {
+    expect(suggestTags(['quick', 'backyard', 'kitchen'], 'k')).toEqual(['kitchen', 'quick', 'backyard']);
+    expect(suggestTags(['quick', 'backyard', 'kitchen'], '#K', ['kitchen'])).toEqual(['quick', 'backyard']);
+    expect(suggestTags(['quick', 'alex'], '', ['alex'])).toEqual(['quick']);
+  });
+});
+
+describe('Tag filter', () => {
+  it('should need every selected tag', () => {
+    const task = createTask({ tags: ['kitchen', 'quick'] });
+
+    expect(matchesTagFilter(task, [])).toBe(true);
+    expect(matchesTagFilter(task, ['kitchen'])).toBe(true);
+    expect(matchesTagFilter(task, ['kitchen', 'alex'])).toBe(false);
+    expect(matchesTagFilter(createTask(), ['kitchen'])).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * CleanTasks Task Reducer Tests
+ * Tests for task actions, the changes they record and undo/redo
+ */
+
+import { INITIAL_TASK_STATE, MAX_UNDO, TaskState, diffTasks, taskReducer } from '../src/state/taskReducer';
+import { Task } from '../src/types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+const loaded = (tasks: Task[]): TaskState => taskReducer(INITIAL_TASK_STATE, { type: 'load', tasks });
+
+const ids = (state: TaskState) => state.tasks.map(t => t.id);
+
+describe('diffTasks', () => {
+  it('should report added, changed and deleted tasks', () => {
+    const a = createTask({ id: 'a' });
+    const b = createTask({ id: 'b' });
+    const c = createTask({ id: 'c' });
+    const changedB = { ...b, text: 'Changed' };
+
+    expect(diffTasks([a, b, c], [changedB, c, createTask({ id: 'd' })]).map(ch => [ch.id, !!ch.before, !!ch.after, ch.index])).toEqual([
+      ['b', true, true, 1],
+      ['d', false, true, 2],
+      ['a', true, false, 0],
+    ]);
+  });
+});
+
+describe('taskReducer', () => {
+  it('should load without recording anything', () => {
+    const state = loaded([createTask()]);
+
+    expect(state.past).toEqual([]);
+    expect(state.changes).toEqual([]);
+  });
+
+  it('should record user actions with what they changed', () => {
+    let state = loaded([createTask({ id: 'a' })]);
+    state = taskReducer(state, { type: 'add', task: createTask({ id: 'b' }) });
+    state = taskReducer(state, { type: 'toggle', id: 'a', at: NOW, note: 'done' });
+
+    expect(ids(state)).toEqual(['b', 'a']);
+    expect(state.tasks[1]).toMatchObject({ completed: true, history: [{ type: 'completed', note: 'done' }] });
+    expect(state.past.map(e => e.label)).toEqual(['Task added', 'Task completed']);
+    expect(state.changes).toHaveLength(1);
+  });
+
+  it('should update tasks, tick steps and replace the list', () => {
+    const subtasks = [{ id: 's1', text: 'Step', done: false }];
+    let state = loaded([createTask({ id: 'a', subtasks, autoComplete: true }), createTask({ id: 'b' })]);
+    state = taskReducer(state, { type: 'update', task: createTask({ id: 'b', priority: 'high' }) });
+    state = taskReducer(state, { type: 'toggleSubtask', taskId: 'a', subtaskId: 's1', at: NOW });
+
+    expect(state.tasks[0]).toMatchObject({ completed: true, subtasks: [{ id: 's1', done: true }] });
+    expect(state.tasks[1].priority).toBe('high');
+
+    state = taskReducer(state, { type: 'replace', tasks: [createTask({ id: 'c' })], label: 'Tasks replaced' });
+    expect(ids(state)).toEqual(['c']);
+    expect(state.changes).toHaveLength(3);
+    expect(state.past.map(e => e.label)).toEqual(['Task updated', 'Step ticked', 'Tasks replaced']);
+  });
+
+  it('should return the same state for actions that change nothing', () => {
+    const state = loaded([createTask()]);
+
+    expect(taskReducer(state, { type: 'deleteForever', id: 'missing' })).toBe(state);
+    expect(taskReducer(state, { type: 'undo' })).toBe(state);
+    expect(taskReducer(state, { type: 'reset', at: NOW })).toBe(state);
+  });
+
+  it('should undo a permanent delete back into place and redo it', () => {
+    const state = loaded([createTask({ id: 'a' }), createTask({ id: 'b' }), createTask({ id: 'c' })]);
+    const deleted = taskReducer(state, { type: 'deleteForever', id: 'b' });
+    const undone = taskReducer(deleted, { type: 'undo' });
+
+    expect(ids(undone)).toEqual(['a', 'b', 'c']);
+    expect(undone.changes).toEqual([{ id: 'b', before: null, after: state.tasks[1], index: 1 }]);
+    expect(undone.future).toHaveLength(1);
+
+    const redone = taskReducer(undone, { type: 'redo' });
+    expect(ids(redone)).toEqual(['a', 'c']);
+    expect(redone.past.map(e => e.label)).toEqual(['Deleted forever']);
+  });
+
+  it('should only undo the tasks an action touched', () => {
+    let state = loaded([createTask({ id: 'a' }), createTask({ id: 'b' })]);
+    state = taskReducer(state, { type: 'update', task: createTask({ id: 'a', text: 'Edited' }) });
+    state = taskReducer(state, { type: 'sync', tasks: state.tasks.map(t => ({ ...t, category: 'Home' })) });
+
+    expect(state.past).toEqual([]);
+
+    state = taskReducer(state, { type: 'update', task: { ...state.tasks[1], text: 'Also edited' } });
+    state = taskReducer(state, { type: 'undo' });
+    expect(state.tasks.map(t => [t.text, t.category])).toEqual([['Edited', 'Home'], ['Test task', 'Home']]);
+  });
+
+  it('should move deleted tasks to the trash and restore them', () => {
+    const task = createTask({ schedule: { type: 'daily', time: '09:00' } });
+    const trashed = taskReducer(loaded([task]), { type: 'delete', id: '1', at: NOW });
+
+    expect(trashed.tasks[0]).toEqual({ ...task, deletedAt: NOW.toISOString() });
+    expect(trashed.past.map(e => e.label)).toEqual(['Moved to trash']);
+
+    const restored = taskReducer(trashed, { type: 'restore', id: '1' });
+    expect(restored.tasks[0]).toEqual(task);
+    expect(restored.past.map(e => e.label)).toEqual(['Moved to trash', 'Task restored']);
+  });
+
+  it('should purge expired trash without an undo entry', () => {
+    const state = loaded([
+      createTask({ id: 'a', deletedAt: '2026-02-01T00:00:00.000Z' }),
+      createTask({ id: 'b', deletedAt: '2026-03-01T00:00:00.000Z' }),
+    ]);
+    const purged = taskReducer(state, { type: 'purge', at: NOW, retentionDays: 7 });
+
+    expect(ids(purged)).toEqual(['b']);
+    expect(purged.changes.map(ch => [ch.id, ch.after])).toEqual([['a', null]]);
+    expect(purged.past).toEqual([]);
+    expect(taskReducer(state, { type: 'purge', at: NOW, retentionDays: 0 })).toBe(state);
+  });
+
+  it('should archive done tasks automatically and reopen them on restore', () => {
+    const done = createTask({ completed: true, history: [{ type: 'completed', at: '2026-02-01T10:00:00.000Z' }] });
+    const archived = taskReducer(loaded([done]), { type: 'archive', at: NOW, afterDays: 7 });
+
+    expect(archived.tasks[0].archivedAt).toBe(NOW.toISOString());
+    expect(archived.past).toEqual([]);
+
+    const restored = taskReducer(archived, { type: 'unarchive', id: '1', at: NOW });
+    expect(restored.tasks[0].completed).toBe(false);
+    expect(restored.tasks[0]).not.toHaveProperty('archivedAt');
+    expect(restored.past.map(e => e.label)).toEqual(['Task restored']);
+  });
+
+  it('should reset recurring tasks without an undo entry', () => {
+    const task = createTask({
+      completed: true,
+      schedule: { type: 'daily', time: '09:00', timeZone: 'UTC' },
+      history: [{ type: 'completed', at: '2026-03-01T10:00:00.000Z' }],
+    });
+    const state = taskReducer(loaded([task]), { type: 'reset', at: NOW });
+
+    expect(state.tasks[0].completed).toBe(false);
+    expect(state.changes).toHaveLength(1);
+    expect(state.past).toEqual([]);
+  });
+
+  it('should keep a reset that happened after the edit being undone', () => {
+    const task = createTask({
+      completed: true,
+      schedule: { type: 'daily', time: '09:00', timeZone: 'UTC' },
+      history: [{ type: 'completed', at: '2026-03-01T10:00:00.000Z' }],
+      subtasks: [{ id: 'a', text: 'Sink', done: true }],
+    });
+    let state = taskReducer(loaded([task]), { type: 'update', task: { ...task, text: 'Clean bathroom' } });
+    state = taskReducer(state, { type: 'reset', at: NOW });
+    state = taskReducer(state, { type: 'undo' });
+
+    expect(state.tasks[0]).toMatchObject({ text: 'Test task', completed: false, subtasks: [{ id: 'a', text: 'Sink', done: false }] });
+    expect(taskReducer(state, { type: 'redo' }).tasks[0]).toMatchObject({ text: 'Clean bathroom', completed: false });
+  });
+
+  it('should clear redo after a new action and cap the undo stack', () => {
+    let state = loaded([]);
+    for (let i = 0; i < MAX_UNDO + 5; i++) {
+      state = taskReducer(state, { type: 'add', task: createTask({ id: String(i) }) });
+    }
+    expect(state.past).toHaveLength(MAX_UNDO);
+
+    state = taskReducer(state, { type: 'undo' });
+    state = taskReducer(state, { type: 'add', task: createTask({ id: 'new' }) });
+    expect(state.future).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * CleanTasks Time Zone Tests
+ * Wall-clock scheduling across DST changes, with fixed clocks
+ */
+
+import { Task } from '../src/types';
+import { checkAndResetTasks, getNextOccurrence } from '../src/utils/scheduler';
+import { getZonedDateTime, isValidTimeZone, zonedTimeToInstant } from '../src/utils/timezone';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: true,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('Time zones', () => {
+  describe('Conversions', () => {
+    it('should read the wall clock in a zone', () => {
+      expect(getZonedDateTime(new Date('2026-07-01T23:30:00Z'), 'Asia/Tokyo')).toEqual({
+        date: { year: 2026, month: 6, day: 2 },
+        time: { hour: 8, minute: 30 },
+      });
+    });
+
+    it('should move times skipped by spring-forward past the gap', () => {
+      // New York jumps from 02:00 to 03:00 on March 8th 2026
+      const instant = zonedTimeToInstant({ year: 2026, month: 2, day: 8 }, { hour: 2, minute: 30 }, 'America/New_York');
+
+      expect(instant.toISOString()).toBe('2026-03-08T07:30:00.000Z'); // 03:30 EDT
+    });
+
+    it('should pick the first of two times repeated by fall-back', () => {
+      // New York repeats 01:00-02:00 on November 1st 2026
+      const instant = zonedTimeToInstant({ year: 2026, month: 10, day: 1 }, { hour: 1, minute: 30 }, 'America/New_York');
+
+      expect(instant.toISOString()).toBe('2026-11-01T05:30:00.000Z'); // 01:30 EDT
+    });
+
+    it('should validate IANA names', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimeZone('')).toBe(false);
+    });
+  });
+
+  describe('DST transitions', () => {
+    it('should keep a daily reset at 09:00 on spring-forward day', () => {
+      const schedule = { type: 'daily' as const, time: '09:00', timeZone: 'America/New_York' };
+
+      const next = getNextOccurrence(schedule, new Date('2026-03-07T14:00:00Z')); // 09:00 EST
+
+      expect(next?.toISOString()).toBe('2026-03-08T13:00:00.000Z'); // 09:00 EDT, 23 hours later
+    });
+
+    it('should keep a daily reset at 09:00 on fall-back day', () => {
+      const schedule = { type: 'daily' as const, time: '09:00', timeZone: 'America/New_York' };
+
+      const next = getNextOccurrence(schedule, new Date('2026-10-31T13:00:00Z')); // 09:00 EDT
+
+      expect(next?.toISOString()).toBe('2026-11-01T14:00:00.000Z'); // 09:00 EST, 25 hours later
+    });
+
+    it('should fire once on fall-back day for a time inside the repeated hour', () => {
+      const schedule = { type: 'daily' as const, time: '01:30', timeZone: 'America/New_York' };
+
+      const first = getNextOccurrence(schedule, new Date('2026-11-01T00:00:00Z'));
+      const second = getNextOccurrence(schedule, first!);
+
+      expect(first?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+      expect(second?.toISOString()).toBe('2026-11-02T06:30:00.000Z');
+    });
+
+    it('should still fire when the reset time is skipped', () => {
+      // Berlin jumps from 02:00 to 03:00 on March 29th 2026
+      const schedule = { type: 'weekends' as const, time: '02:30', timeZone: 'Europe/Berlin' };
+
+      const next = getNextOccurrence(schedule, new Date('2026-03-28T12:00:00Z'));
+
+      expect(next?.toISOString()).toBe('2026-03-29T01:30:00.000Z'); // 03:30 CEST
+    });
+
+    it('should not reset early on a 23-hour day', () => {
+      const task = createTask({
+        lastCompletedAt: '2026-03-07T15:00:00.000Z', // 10:00 EST
+        schedule: { type: 'daily', time: '09:00', timeZone: 'America/New_York' },
+      });
+
+      expect(checkAndResetTasks([task], new Date('2026-03-08T12:59:00Z'))[0].completed).toBe(true);
+      expect(checkAndResetTasks([task], new Date('2026-03-08T13:00:00Z'))[0].completed).toBe(false);
+    });
+  });
+
+  describe('Shared lists', () => {
+    it('should reset on the task zone regardless of the device zone', () => {
+      const task = createTask({
+        lastCompletedAt: '2026-02-19T22:00:00.000Z', // 07:00 on the 20th in Tokyo
+        schedule: { type: 'daily', time: '06:00', timeZone: 'Asia/Tokyo' },
+      });
+
+      expect(checkAndResetTasks([task], new Date('2026-02-20T20:59:00Z'))[0].completed).toBe(true);
+      expect(checkAndResetTasks([task], new Date('2026-02-20T21:00:00Z'))[0].completed).toBe(false);
+    });
+
+    it('should count weekdays in the task zone', () => {
+      // Friday 23:00 in Los Angeles is already Saturday in UTC
+      const schedule = { type: 'weekdays' as const, time: '23:00', timeZone: 'America/Los_Angeles' };
+
+      const next = getNextOccurrence(schedule, new Date('2026-02-20T12:00:00Z'));
+
+      expect(next?.toISOString()).toBe('2026-02-21T07:00:00.000Z');
+    });
+
+    it('should fall back to the device zone for unknown zones', () => {
+      const next = getNextOccurrence({ type: 'daily', timeZone: 'Nowhere/Land' }, new Date('2026-02-20T12:00:00'));
+
+      expect(next).toEqual(new Date('2026-02-21T00:00:00'));
+    });
+  });
+});
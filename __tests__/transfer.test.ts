@@ -0,0 +1,163 @@
+/**
+ * CleanTasks Export and Import Tests
+ * Tests for the JSON and CSV formats and merging imports into a list
+ */
+
+import { StorageError } from '../src/storage/schema';
+import { applyImport, exportCsv, exportJson, parseCsv, parseImport } from '../src/storage/transfer';
+import { Task } from '../src/types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const TASKS: Task[] = [
+  createTask({
+    id: '1',
+    text: 'Water plants, then "mist" them',
+    priority: 'low',
+    completed: true,
+    schedule: { type: 'custom', customCron: 'FREQ=WEEKLY;BYDAY=MO', time: '09:00', timeZone: 'Europe/Berlin' },
+    history: [{ type: 'completed', at: '2026-02-16T10:00:00.000Z', note: 'all of them\nincl. balcony' }],
+    subtasks: [{ id: 'a', text: 'Fill the "big" can', done: true }],
+  }),
+  createTask({ id: '2', text: 'Buy milk', category: 'Shopping', tags: ['alex', 'quick'], dueAt: '2026-03-05T17:00' }),
+];
+
+describe('Export', () => {
+  it('should round-trip through JSON', () => {
+    const json = exportJson(TASKS, new Date('2026-03-01T09:00:00.000Z'));
+    const { tasks, skipped } = parseImport(json);
+
+    expect(JSON.parse(json)).toMatchObject({ format: 'cleantasks', exportedAt: '2026-03-01T09:00:00.000Z' });
+    expect(skipped).toEqual([]);
+    expect(tasks).toEqual(TASKS);
+  });
+
+  it('should round-trip through CSV', () => {
+    const csv = exportCsv(TASKS);
+    const { tasks, skipped } = parseImport(csv);
+
+    expect(csv.split('\r\n')[0]).toBe('id,text,completed,priority,category,tags,createdAt,dueAt,schedule,history,subtasks');
+    expect(skipped).toEqual([]);
+    expect(tasks).toEqual(TASKS);
+  });
+
+  it('should parse quoted CSV cells', () => {
+    expect(parseCsv('a,"b,c","say ""hi""\nthere"\r\n1,2,3')).toEqual([
+      ['a', 'b,c', 'say "hi"\nthere'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('Import', () => {
+  it('should accept the unversioned array format', () => {
+    const { tasks } = parseImport(JSON.stringify([{ id: 5, text: 'Old', lastCompletedAt: '2026-01-02T00:00:00.000Z' }]));
+
+    expect(tasks[0]).toMatchObject({ id: '5', text: 'Old', priority: 'medium' });
+    expect(tasks[0].history).toHaveLength(1);
+  });
+
+  it('should accept a CSV with only some columns', () => {
+    const { tasks } = parseImport('text,id,priority,tags\nCall mum,9,high,"#Family, phone"\n');
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ id: '9', text: 'Call mum', priority: 'high', completed: false, tags: ['family', 'phone'] });
+  });
+
+  it('should skip invalid and repeated entries with a reason', () => {
+    const { tasks, skipped } = parseImport(
+      JSON.stringify([
+        { id: '1', text: 'Fine' },
+        { id: '2', text: '' },
+        { id: '3', text: 'Bad time', schedule: { type: 'daily', time: '25:00' } },
+        { id: '4', text: 'Bad rule', schedule: { type: 'custom', customCron: 'FREQ=SOMETIMES' } },
+        { id: '5', text: 'Bad zone', schedule: { type: 'daily', timeZone: 'Mars/Olympus' } },
+        { id: '6', text: 'Bad tags', tags: ['Not Normal'] },
+        { id: '1', text: 'Twice' },
+        { text: 'No id' },
+      ])
+    );
+
+    expect(tasks.map(t => t.text)).toEqual(['Fine']);
+    expect(skipped).toHaveLength(7);
+    expect(skipped[0]).toBe('1 entries without an id');
+    expect(skipped[1]).toBe('Task 2: text is empty');
+    expect(skipped[5]).toBe('Task 6: tags are not a list of tags');
+    expect(skipped[6]).toBe('Task 1: appears more than once');
+  });
+
+  it('should skip schedules whose day fields are out of range', () => {
+    const { tasks, skipped } = parseImport(
+      JSON.stringify([
+        { id: '1', text: 'Weekday as text', schedule: { type: 'weekly', dayOfWeek: 'x' } },
+        { id: '2', text: 'No such day', schedule: { type: 'monthly', dayOfMonth: 45 } },
+        { id: '3', text: 'Odd rule', schedule: { type: 'monthly', monthlyRule: 'sometimes' } },
+        { id: '4', text: 'Fifth week', schedule: { type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: 5 } },
+        { id: '5', text: 'Fine', schedule: { type: 'monthly', monthlyRule: 'nth_weekday', weekOfMonth: -1, dayOfWeek: 5 } },
+      ])
+    );
+
+    expect(tasks.map(t => t.id)).toEqual(['5']);
+    expect(skipped).toEqual([
+      'Task 1: schedule dayOfWeek "x" is not 0-6',
+      'Task 2: schedule dayOfMonth "45" is not 1-31',
+      'Task 3: unknown monthly rule "sometimes"',
+      'Task 4: schedule weekOfMonth "5" is not 1, 2, 3, 4, -1',
+    ]);
+  });
+
+  it('should skip malformed history and subtask entries', () => {
+    const { skipped } = parseImport(
+      JSON.stringify([
+        { id: '1', text: 'Bad entry', history: [{ type: 'completed', at: '2026-01-01T00:00:00.000Z', note: 5 }] },
+        { id: '2', text: 'Bad step', subtasks: [{ id: 1, text: 'Step', done: false }] },
+      ])
+    );
+
+    expect(skipped).toEqual(['Task 1: history has an unreadable entry', 'Task 2: subtasks has an unreadable entry']);
+  });
+
+  it('should report a CSV row with a broken JSON cell', () => {
+    const { tasks, skipped } = parseImport('id,text,schedule\n1,Fine,\n2,Broken,{nope\n');
+
+    expect(tasks).toHaveLength(1);
+    expect(skipped).toEqual(['Task 2: schedule is not valid JSON']);
+  });
+
+  it('should reject input it cannot read', () => {
+    expect(() => parseImport('')).toThrow(StorageError);
+    expect(() => parseImport('{"tasks": ')).toThrow(StorageError);
+    expect(() => parseImport('{"hello": 1}')).toThrow(StorageError);
+    expect(() => parseImport('name,value\na,b')).toThrow('CSV is missing the id and text column');
+    expect(() => parseImport(JSON.stringify({ version: 99, tasks: [] }))).toThrow('newer version');
+  });
+});
+
+describe('applyImport', () => {
+  const existing = [createTask({ id: '1', text: 'Mine' }), createTask({ id: '2' })];
+  const imported = [createTask({ id: '2', text: 'Theirs' }), createTask({ id: '3' })];
+
+  it('should add new ids and keep existing tasks on merge', () => {
+    const result = applyImport(existing, imported, 'merge');
+
+    expect(result.tasks.map(t => t.id)).toEqual(['3', '1', '2']);
+    expect(result.tasks.find(t => t.id === '2')?.text).toBe('Test task');
+    expect(result.duplicates).toEqual(['2']);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should swap the whole list on replace', () => {
+    const result = applyImport(existing, imported, 'replace');
+
+    expect(result.tasks).toBe(imported);
+    expect(result.removed).toEqual(['1']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * CleanTasks Trash Tests
+ * Tests for moving tasks to the trash, restoring them and the retention
+ * purge
+ */
+
+import { Task } from '../src/types';
+import { checkAndResetTasks, getNextResetTime } from '../src/utils/scheduler';
+import { getNextPurgeTime, getPurgeAt, getTrashLabel, purgeTrash, restoreTask, trashTask, withoutTrash } from '../src/utils/trash';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: '1',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  category: 'Personal',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('trashTask and restoreTask', () => {
+  it('should keep everything but the deletion time', () => {
+    const task = createTask({ schedule: { type: 'daily', time: '09:00' }, tags: ['home'] });
+    const trashed = trashTask(task, NOW);
+
+    expect(trashed.deletedAt).toBe(NOW.toISOString());
+    expect(withoutTrash([trashed, createTask({ id: '2' })]).map(t => t.id)).toEqual(['2']);
+    expect(restoreTask(trashed)).toEqual(task);
+    expect(restoreTask(task)).toBe(task);
+  });
+});
+
+describe('purgeTrash', () => {
+  it('should drop tasks trashed longer than the retention', () => {
+    const tasks = [
+      trashTask(createTask({ id: 'old' }), daysAgo(31)),
+      trashTask(createTask({ id: 'recent' }), daysAgo(29)),
+      createTask({ id: 'live' }),
+    ];
+
+    expect(purgeTrash(tasks, 30, NOW).map(t => t.id)).toEqual(['recent', 'live']);
+    expect(purgeTrash(tasks, 90, NOW)).toBe(tasks);
+  });
+
+  it('should keep everything when the retention is forever', () => {
+    const tasks = [trashTask(createTask(), daysAgo(1000))];
+
+    expect(purgeTrash(tasks, 0, NOW)).toBe(tasks);
+    expect(getPurgeAt(tasks[0], 0)).toBeNull();
+  });
+
+  it('should know when the next purge is due', () => {
+    const tasks = [
+      trashTask(createTask({ id: 'later' }), daysAgo(10)),
+      trashTask(createTask({ id: 'soon' }), daysAgo(29)),
+      createTask({ id: 'live' }),
+    ];
+    const next = getNextPurgeTime(tasks, 30)!;
+
+    expect(next).toEqual(daysAgo(-1));
+    expect(purgeTrash(tasks, 30, new Date(next.getTime() - 1))).toBe(tasks);
+    expect(purgeTrash(tasks, 30, next).map(t => t.id)).toEqual(['later', 'live']);
+    expect(getNextPurgeTime(tasks, 0)).toBeNull();
+  });
+});
+
+describe('getTrashLabel', () => {
+  it('should say when the task was deleted and when it goes', () => {
+    expect(getTrashLabel(trashTask(createTask(), daysAgo(0)), 30, NOW)).toBe('Deleted today · gone in 30 days');
+    expect(getTrashLabel(trashTask(createTask(), daysAgo(1)), 30, NOW)).toBe('Deleted yesterday · gone in 29 days');
+    expect(getTrashLabel(trashTask(createTask(), daysAgo(6.5)), 7, NOW)).toBe('Deleted 6 days ago · gone in 1 day');
+    expect(getTrashLabel(trashTask(createTask(), daysAgo(3)), 0, NOW)).toBe('Deleted 3 days ago');
+  });
+});
+
+describe('scheduling in the trash', () => {
+  it('should not reset or wait on trashed tasks', () => {
+    const task = trashTask(
+      createTask({
+        completed: true,
+        schedule: { type: 'daily', time: '09:00', timeZone: 'UTC' },
+        history: [{ type: 'completed', at: '2026-03-01T10:00:00.000Z' }],
+      }),
+      daysAgo(5)
+    );
+
+    expect(checkAndResetTasks([task], NOW)[0]).toBe(task);
+    expect(getNextResetTime([task])).toBeNull();
+  });
+});
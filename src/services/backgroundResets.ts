@@ -0,0 +1,73 @@
+/**
+ * CleanTasks - Background Resets
+ * A background task that resets due tasks in storage, purges expired trash,
+ * archives long-done tasks and re-plans notifications while the app is
+ * closed. The OS decides when it runs,
+ * at most every MINIMUM_INTERVAL minutes; the app still resets on its own
+ * when it comes to the foreground.
+ */
+
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { diffTasks } from '../state/taskReducer';
+import { openTaskRepository } from '../storage/openRepository';
+import { loadSettings } from '../storage/settings';
+import { Settings, Task } from '../types';
+import { archiveCompletedTasks } from '../utils/archive';
+import { planNotifications } from '../utils/notifications';
+import { checkAndResetTasks } from '../utils/scheduler';
+import { purgeTrash } from '../utils/trash';
+import { syncNotifications } from './notifications';
+
+export const RESET_TASK = 'cleantasks-resets';
+
+// Minutes; the OS may wait longer
+const MINIMUM_INTERVAL = 15;
+
+/**
+ * Reset every task whose next occurrence has passed, purge and archive what
+ * the settings say is due, and write back only what changed. Returns the
+ * full list afterwards.
+ */
+export async function runScheduledChanges(settings: Settings, now: Date = new Date()): Promise<Task[]> {
+  const repository = await openTaskRepository();
+  const stored = await repository.list();
+  const reset = checkAndResetTasks(stored, now);
+  const tasks = archiveCompletedTasks(purgeTrash(reset, settings.trashRetentionDays, now), settings.archiveAfterDays, now);
+  const changes = diffTasks(stored, tasks);
+  if (changes.length === 0) return tasks;
+  await repository.transaction(async (tx) => {
+    for (const change of changes) {
+      if (!change.after) await tx.delete(change.id);
+    }
+    const upserted = changes.flatMap(change => (change.after ? [change.after] : []));
+    if (upserted.length > 0) await tx.upsert(upserted);
+  });
+  return tasks;
+}
+
+// Must be defined when the JS bundle loads, so index.ts imports this module
+TaskManager.defineTask(RESET_TASK, async () => {
+  try {
+    const settings = await loadSettings();
+    const tasks = await runScheduledChanges(settings);
+    await syncNotifications(planNotifications(tasks, settings), false);
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch (e) {
+    console.log('Error in background resets:', e);
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+export async function registerBackgroundResets(): Promise<void> {
+  if (Platform.OS === 'web') return;
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) return;
+    if (await TaskManager.isTaskRegisteredAsync(RESET_TASK)) return;
+    await BackgroundTask.registerTaskAsync(RESET_TASK, { minimumInterval: MINIMUM_INTERVAL });
+  } catch (e) {
+    console.log('Error registering background resets:', e);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * CleanTasks - Notification Service
+ * Hands a notification plan to expo-notifications. Each sync replaces
+ * everything pending with the plan, so a task that was completed, edited or
+ * deleted never fires a stale reminder.
+ */
+
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { PlannedNotification } from '../utils/notifications';
+
+const CHANNEL_ID = 'tasks';
+
+let channel: Promise<void> | null = null;
+// Only ask once per launch, and never from the background task
+let asked = false;
+// Syncs run one after another so an older plan can't land last
+let queue: Promise<void> = Promise.resolve();
+
+// Show notifications that arrive while the app is open, too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const hasPermission = async (ask: boolean): Promise<boolean> => {
+  if (Platform.OS === 'web') return false;
+  if (Platform.OS === 'android' && !channel) {
+    channel = Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Task reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    }).then(() => undefined);
+  }
+  await channel;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !ask || asked || !current.canAskAgain) return current.granted;
+  asked = true;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+const replacePending = async (plan: PlannedNotification[], ask: boolean) => {
+  if (!(await hasPermission(ask))) return;
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  for (const notification of plan) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { taskId: notification.taskId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.at,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+};
+
+/**
+ * Make the pending notifications match the plan. Asks for permission the
+ * first time unless `ask` is false; without it this does nothing.
+ */
+export function syncNotifications(plan: PlannedNotification[], ask = true): Promise<void> {
+  queue = queue.then(() => replacePending(plan, ask)).catch(e => console.log('Error scheduling notifications:', e));
+  return queue;
+}
@@ -0,0 +1,74 @@
+/**
+ * CleanTasks - Task Selectors
+ * What the screens derive from the task state, kept out of components so
+ * it can be tested without rendering.
+ */
+
+import { Task } from '../types';
+import { isArchived } from '../utils/archive';
+import { DueFilter, matchesDueFilter } from '../utils/due';
+import { SearchQuery, matchesSearch } from '../utils/query';
+import { matchesTagFilter } from '../utils/tags';
+import { getDeviceTimeZone } from '../utils/timezone';
+import { isTrashed } from '../utils/trash';
+import { TaskState, UndoEntry } from './taskReducer';
+
+// 'archive' and 'trash' show only the tasks put there; the others never do
+export type StatusFilter = 'all' | 'active' | 'completed' | 'archive' | 'trash';
+
+export interface TaskFilters {
+  status: StatusFilter;
+  search: SearchQuery;
+  due: DueFilter;
+  tags: string[]; // Tasks must have all of them
+}
+
+export interface TaskStats {
+  total: number;
+  completed: number;
+  active: number;
+  archived: number; // Neither is counted in the others
+  trashed: number;
+}
+
+// Tasks in the list proper, neither archived nor trashed
+export const isLive = (task: Task) => !isArchived(task) && !isTrashed(task);
+
+export function selectStats(tasks: Task[]): TaskStats {
+  const live = tasks.filter(isLive);
+  const completed = live.filter(t => t.completed).length;
+  return {
+    total: live.length,
+    completed,
+    active: live.length - completed,
+    archived: tasks.filter(t => isArchived(t) && !isTrashed(t)).length,
+    trashed: tasks.filter(isTrashed).length,
+  };
+}
+
+/**
+ * The tasks that pass every filter, in list order.
+ */
+export function selectFilteredTasks(
+  tasks: Task[],
+  filters: TaskFilters,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): Task[] {
+  return tasks.filter(t => {
+    if (isTrashed(t) !== (filters.status === 'trash')) return false;
+    if (!isTrashed(t) && isArchived(t) !== (filters.status === 'archive')) return false;
+    if (filters.status === 'active' && t.completed) return false;
+    if (filters.status === 'completed' && !t.completed) return false;
+    return (
+      matchesSearch(t, filters.search, now, timeZone) &&
+      matchesDueFilter(t, filters.due, now, timeZone) &&
+      matchesTagFilter(t, filters.tags)
+    );
+  });
+}
+
+// The entries undo and redo would apply next
+export const selectUndoEntry = (state: TaskState): UndoEntry | null => state.past[state.past.length - 1] ?? null;
+
+export const selectRedoEntry = (state: TaskState): UndoEntry | null => state.future[state.future.length - 1] ?? null;
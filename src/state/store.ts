@@ -0,0 +1,77 @@
+/**
+ * CleanTasks - Task Store
+ * Holds the task state outside React. Actions go through the reducer, then
+ * each middleware sees what they changed; persistence is one of them.
+ * Components read the state with `useSyncExternalStore`.
+ */
+
+import { TaskRepository } from '../storage/repository';
+import { INITIAL_TASK_STATE, TaskAction, TaskState, taskReducer } from './taskReducer';
+
+/**
+ * Runs after an action has changed the state. Resolving to false reports
+ * the action as failed to whoever dispatched it.
+ */
+export type TaskMiddleware = (action: TaskAction, state: TaskState) => Promise<boolean> | void;
+
+export interface TaskStore {
+  getState(): TaskState;
+  // Resolves once every middleware is done, to false if one failed
+  dispatch(action: TaskAction): Promise<boolean>;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createTaskStore(middleware: TaskMiddleware[] = [], initial: TaskState = INITIAL_TASK_STATE): TaskStore {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch: async (action) => {
+      const next = taskReducer(state, action);
+      if (next === state) return true;
+      state = next;
+      listeners.forEach(listener => listener());
+      const results = await Promise.all(middleware.map(run => run(action, next)));
+      return results.every(result => result !== false);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Writes what each action changed to the repository in one transaction, one
+ * action after another so writes land in order. Loading writes nothing, and
+ * neither does anything dispatched before the repository is open.
+ */
+export function persistTo(getRepository: () => TaskRepository | null): TaskMiddleware {
+  let queue: Promise<boolean> = Promise.resolve(true);
+
+  return (action, state) => {
+    const { changes } = state;
+    if (action.type === 'load' || changes.length === 0) return;
+    queue = queue.then(async () => {
+      const repository = getRepository();
+      if (!repository) return true;
+      try {
+        await repository.transaction(async (tx) => {
+          for (const change of changes) {
+            if (!change.after) await tx.delete(change.id);
+          }
+          const upserted = changes.flatMap(change => (change.after ? [change.after] : []));
+          if (upserted.length > 0) await tx.upsert(upserted);
+        });
+        return true;
+      } catch (e) {
+        console.log('Error saving tasks:', e);
+        return false;
+      }
+    });
+    return queue;
+  };
+}
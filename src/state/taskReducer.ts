@@ -0,0 +1,190 @@
+/**
+ * CleanTasks - Task Reducer
+ * Every change to the task list goes through here as an action. Each
+ * result records which tasks changed, which is what gets persisted, and
+ * user actions also land on an undo stack.
+ *
+ * Undo entries hold the changed tasks' before and after values rather than
+ * whole lists, and undo puts back only the fields an action changed, so
+ * undoing one action never rolls back another. Automatic resets, trash
+ * purges and archiving aren't undoable; they would only happen again, and
+ * what they changed stays through an undo.
+ */
+
+import { Task } from '../types';
+import { archiveCompletedTasks, unarchiveTask } from '../utils/archive';
+import { completeTask, uncompleteTask } from '../utils/history';
+import { checkAndResetTasks, getPreviousOccurrence } from '../utils/scheduler';
+import { toggleSubtask } from '../utils/subtasks';
+import { purgeTrash, restoreTask, trashTask } from '../utils/trash';
+
+// Entries kept on the undo stack
+export const MAX_UNDO = 50;
+
+export interface TaskChange {
+  id: string;
+  before: Task | null; // null when the task was added
+  after: Task | null; // null when the task was deleted
+  index: number; // Position before the change, so undo restores it in place
+}
+
+export interface UndoEntry {
+  label: string; // What the snackbar says, e.g. "Task deleted"
+  changes: TaskChange[];
+}
+
+export interface TaskState {
+  tasks: Task[];
+  past: UndoEntry[];
+  future: UndoEntry[];
+  changes: TaskChange[]; // What the last action changed, for persistence
+}
+
+export type TaskAction =
+  | { type: 'load'; tasks: Task[] }
+  | { type: 'add'; task: Task }
+  | { type: 'update'; task: Task }
+  | { type: 'toggle'; id: string; at: Date; note?: string }
+  | { type: 'toggleSubtask'; taskId: string; subtaskId: string; at: Date }
+  | { type: 'delete'; id: string; at: Date } // Moves the task to the trash
+  | { type: 'restore'; id: string }
+  | { type: 'deleteForever'; id: string }
+  | { type: 'reset'; at: Date }
+  | { type: 'purge'; at: Date; retentionDays: number }
+  | { type: 'archive'; at: Date; afterDays: number }
+  | { type: 'unarchive'; id: string; at: Date }
+  | { type: 'replace'; tasks: Task[]; label: string }
+  | { type: 'sync'; tasks: Task[] }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export const INITIAL_TASK_STATE: TaskState = { tasks: [], past: [], future: [], changes: [] };
+
+/**
+ * The tasks that differ between two lists, compared by identity.
+ */
+export function diffTasks(before: Task[], after: Task[]): TaskChange[] {
+  const beforeById = new Map(before.map((task, index) => [task.id, { task, index }]));
+  const afterIds = new Set(after.map(task => task.id));
+  const changes: TaskChange[] = [];
+
+  after.forEach((task, index) => {
+    const previous = beforeById.get(task.id);
+    if (!previous) changes.push({ id: task.id, before: null, after: task, index });
+    else if (previous.task !== task) changes.push({ id: task.id, before: previous.task, after: task, index: previous.index });
+  });
+  for (const [id, { task, index }] of beforeById) {
+    if (!afterIds.has(id)) changes.push({ id, before: task, after: null, index });
+  }
+  return changes;
+}
+
+// Fields whose values differ between two versions of a task
+const changedFields = (a: Task, b: Task): (keyof Task)[] =>
+  (Object.keys({ ...a, ...b }) as (keyof Task)[]).filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+
+// Put each change's `before` (undo) or `after` (redo) value back in place.
+// A task that is still there only gets back the fields the change touched,
+// keeping whatever happened to it since
+const applyChanges = (tasks: Task[], changes: TaskChange[], direction: 'undo' | 'redo'): Task[] => {
+  const next = [...tasks];
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+  for (const change of ordered) {
+    const value = direction === 'undo' ? change.before : change.after;
+    const replaced = direction === 'undo' ? change.after : change.before;
+    const current = next.findIndex(t => t.id === change.id);
+    if (value && replaced && current >= 0) {
+      const fields = changedFields(replaced, value);
+      next[current] = { ...next[current], ...Object.fromEntries(fields.map(key => [key, value[key]])) };
+      continue;
+    }
+    if (current >= 0) next.splice(current, 1);
+    if (value) next.splice(Math.min(change.index, next.length), 0, value);
+  }
+  return next;
+};
+
+const mapTask = (tasks: Task[], id: string, update: (task: Task) => Task) =>
+  tasks.map(t => (t.id === id ? update(t) : t));
+
+const occurrenceFor = (task: Task, at: Date) => (task.schedule ? getPreviousOccurrence(task.schedule, at) : null);
+
+// The list after a user action, with the label its undo entry gets
+const applyAction = (tasks: Task[], action: TaskAction): { tasks: Task[]; label: string } | null => {
+  switch (action.type) {
+    case 'add':
+      return { tasks: [action.task, ...tasks], label: 'Task added' };
+    case 'update':
+      return { tasks: mapTask(tasks, action.task.id, () => action.task), label: 'Task updated' };
+    case 'toggle': {
+      const task = tasks.find(t => t.id === action.id);
+      return {
+        tasks: mapTask(tasks, action.id, t =>
+          t.completed ? uncompleteTask(t, action.at) : completeTask(t, action.at, occurrenceFor(t, action.at), action.note)
+        ),
+        label: task?.completed ? 'Task reopened' : 'Task completed',
+      };
+    }
+    case 'toggleSubtask':
+      return {
+        tasks: mapTask(tasks, action.taskId, t => toggleSubtask(t, action.subtaskId, action.at, occurrenceFor(t, action.at))),
+        label: 'Step ticked',
+      };
+    case 'delete':
+      return { tasks: mapTask(tasks, action.id, t => trashTask(t, action.at)), label: 'Moved to trash' };
+    case 'restore':
+      return { tasks: mapTask(tasks, action.id, restoreTask), label: 'Task restored' };
+    case 'unarchive':
+      return { tasks: mapTask(tasks, action.id, t => unarchiveTask(t, action.at)), label: 'Task restored' };
+    case 'deleteForever':
+      return { tasks: tasks.filter(t => t.id !== action.id), label: 'Deleted forever' };
+    case 'replace':
+      return { tasks: action.tasks, label: action.label };
+    default:
+      return null;
+  }
+};
+
+export function taskReducer(state: TaskState, action: TaskAction): TaskState {
+  switch (action.type) {
+    case 'load':
+      return { tasks: action.tasks, past: [], future: [], changes: [] };
+    case 'reset':
+    case 'purge':
+    case 'archive': {
+      const tasks =
+        action.type === 'reset'
+          ? checkAndResetTasks(state.tasks, action.at)
+          : action.type === 'purge'
+            ? purgeTrash(state.tasks, action.retentionDays, action.at)
+            : archiveCompletedTasks(state.tasks, action.afterDays, action.at);
+      const changes = diffTasks(state.tasks, tasks);
+      return changes.length > 0 ? { ...state, tasks, changes } : state;
+    }
+    // Tasks changed along with something outside the list, e.g. a category
+    // rename; older entries could bring back what no longer exists
+    case 'sync':
+      return { tasks: action.tasks, past: [], future: [], changes: diffTasks(state.tasks, action.tasks) };
+    case 'undo':
+    case 'redo': {
+      const from = action.type === 'undo' ? state.past : state.future;
+      const entry = from[from.length - 1];
+      if (!entry) return state;
+      const tasks = applyChanges(state.tasks, entry.changes, action.type);
+      const remaining = from.slice(0, -1);
+      return action.type === 'undo'
+        ? { tasks, past: remaining, future: [...state.future, entry], changes: diffTasks(state.tasks, tasks) }
+        : { tasks, past: [...state.past, entry], future: remaining, changes: diffTasks(state.tasks, tasks) };
+    }
+  }
+
+  const result = applyAction(state.tasks, action);
+  const changes = result ? diffTasks(state.tasks, result.tasks) : [];
+  if (!result || changes.length === 0) return state;
+  return {
+    tasks: result.tasks,
+    past: [...state.past, { label: result.label, changes }].slice(-MAX_UNDO),
+    future: [],
+    changes,
+  };
+}
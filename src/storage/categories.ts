@@ -0,0 +1,25 @@
+/**
+ * CleanTasks - Category Storage
+ * The user's categories in AsyncStorage, in picker order. Nothing stored yet
+ * means the default five.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Category } from '../types';
+import { DEFAULT_CATEGORIES, normalizeCategories } from '../utils/categories';
+
+const CATEGORIES_KEY = 'categories';
+
+export async function loadCategories(): Promise<Category[]> {
+  const stored = await AsyncStorage.getItem(CATEGORIES_KEY);
+  if (!stored) return DEFAULT_CATEGORIES;
+  try {
+    return normalizeCategories(JSON.parse(stored));
+  } catch {
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+export async function saveCategories(categories: Category[]): Promise<void> {
+  await AsyncStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
+}
@@ -0,0 +1,454 @@
+/**
+ * CleanTasks - iCalendar Export and Import
+ * Writes scheduled tasks as VTODO (or VEVENT) components whose RRULE is the
+ * iCalendar equivalent of the schedule, and reads VTODOs and VEVENTs back.
+ *
+ *   weekly_monday   FREQ=WEEKLY;BYDAY=MO
+ *   second_friday   FREQ=MONTHLY;BYDAY=2FR
+ *   weekdays        FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+ *
+ * DTSTART is the first occurrence after the task was created, on the wall
+ * clock of the schedule's time zone. Time zones are written as IANA TZIDs
+ * without VTIMEZONE blocks, which the common calendar apps resolve.
+ * CATEGORIES lists the task's category followed by its tags.
+ *
+ * One-off tasks with a due date become VTODOs with a DUE and no RRULE. DUE
+ * is a floating time, or a date for tasks due any time that day, since
+ * `dueAt` follows the device clock.
+ */
+
+import { CompletionEntry, Priority, Schedule, Task } from '../types';
+import { CivilDate, TimeOfDay, formatIsoDate } from '../utils/dates';
+import { DueDate, formatDueAt, parseDueAt } from '../utils/due';
+import { getLastCompletedAt } from '../utils/history';
+import { parseRecurrence } from '../utils/recurrence';
+import { getNextOccurrence } from '../utils/scheduler';
+import { normalizeTags } from '../utils/tags';
+import { getDeviceTimeZone, getZonedDateTime, isValidTimeZone, zonedTimeToInstant } from '../utils/timezone';
+import { StorageError } from './schema';
+import { ParsedImport } from './transfer';
+
+export type IcsComponent = 'VTODO' | 'VEVENT';
+
+export interface IcsExport {
+  ics: string;
+  exported: number;
+  skipped: string[]; // One readable reason per scheduled task left out
+}
+
+// Suffix on exported UIDs; stripped again on import so ids round-trip
+const UID_DOMAIN = '@cleantasks';
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WORKWEEK = 'MO,TU,WE,TH,FR';
+
+const PRIORITY_VALUES: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+const monthlyRRule = (schedule: Schedule): string => {
+  switch (schedule.monthlyRule ?? 'day_of_month') {
+    case 'last_day':
+      return 'FREQ=MONTHLY;BYMONTHDAY=-1';
+    case 'last_weekday':
+      return `FREQ=MONTHLY;BYDAY=${WORKWEEK};BYSETPOS=-1`;
+    case 'nth_weekday':
+      return `FREQ=MONTHLY;BYDAY=${schedule.weekOfMonth ?? 1}${DAY_CODES[schedule.dayOfWeek ?? 1]}`;
+    case 'day_of_month': {
+      const day = schedule.dayOfMonth ?? 1;
+      // Days past the end of a short month fall on its last day
+      return day > 28 ? `FREQ=MONTHLY;BYMONTHDAY=${day},-1;BYSETPOS=1` : `FREQ=MONTHLY;BYMONTHDAY=${day}`;
+    }
+  }
+};
+
+const cronToRRule = (source: string): string | null => {
+  const rule = parseRecurrence(source);
+  if (rule.kind === 'rrule') return source.trim().replace(/^RRULE:/i, '').toUpperCase();
+  // Cron matches either list when both are restricted, which one RRULE can't say
+  if (rule.domRestricted && rule.dowRestricted) return null;
+
+  const parts = ['FREQ=DAILY'];
+  if (rule.months.length < 12) parts.push(`BYMONTH=${rule.months.join(',')}`);
+  if (rule.domRestricted) parts.push(`BYMONTHDAY=${rule.daysOfMonth.join(',')}`);
+  if (rule.dowRestricted) parts.push(`BYDAY=${rule.daysOfWeek.map(d => DAY_CODES[d]).join(',')}`);
+  parts.push(`BYHOUR=${rule.hours.join(',')}`, `BYMINUTE=${rule.minutes.join(',')}`);
+  return parts.join(';');
+};
+
+/**
+ * The RRULE a schedule repeats by, or null when it has none or can't be
+ * written as one.
+ */
+export function scheduleToRRule(schedule: Schedule): string | null {
+  switch (schedule.type) {
+    case 'none':
+      return null;
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return schedule.dayOfWeek === undefined ? null : `FREQ=WEEKLY;BYDAY=${DAY_CODES[schedule.dayOfWeek]}`;
+    case 'weekly_monday':
+      return 'FREQ=WEEKLY;BYDAY=MO';
+    case 'weekly_friday':
+      return 'FREQ=WEEKLY;BYDAY=FR';
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${DAY_CODES[schedule.dayOfWeek ?? 1]}`;
+    case 'monthly':
+      return monthlyRRule(schedule);
+    case 'second_friday':
+      return 'FREQ=MONTHLY;BYDAY=2FR';
+    case 'last_day':
+      return 'FREQ=MONTHLY;BYMONTHDAY=-1';
+    case 'weekdays':
+      return `FREQ=WEEKLY;BYDAY=${WORKWEEK}`;
+    case 'weekends':
+      return 'FREQ=WEEKLY;BYDAY=SA,SU';
+    case 'custom':
+      try {
+        return cronToRRule(schedule.customCron ?? '');
+      } catch {
+        return null;
+      }
+  }
+}
+
+const parseRRuleParts = (rrule: string) => {
+  const parts = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+  // Week start only matters for rules this app doesn't express
+  parts.delete('WKST');
+  if (parts.get('INTERVAL') === '1') parts.delete('INTERVAL');
+  return parts;
+};
+
+// The preset a rule spells, matching only the exact forms written above
+const presetFor = (parts: Map<string, string>): Omit<Schedule, 'time' | 'timeZone' | 'anchor'> | null => {
+  const key = [...parts.keys()].sort().join(';');
+  const freq = parts.get('FREQ');
+  const byDay = parts.get('BYDAY') ?? '';
+  const byMonthDay = parts.get('BYMONTHDAY') ?? '';
+  const plainDay = DAY_CODES.indexOf(byDay);
+  const nthDay = byDay.match(/^(-1|[1-4])(SU|MO|TU|WE|TH|FR|SA)$/);
+
+  if (freq === 'DAILY' && key === 'FREQ') return { type: 'daily' };
+
+  if (freq === 'WEEKLY' && key === 'BYDAY;FREQ') {
+    if (byDay === 'MO') return { type: 'weekly_monday' };
+    if (byDay === 'FR') return { type: 'weekly_friday' };
+    if (byDay === WORKWEEK) return { type: 'weekdays' };
+    if (byDay === 'SA,SU' || byDay === 'SU,SA') return { type: 'weekends' };
+    if (plainDay >= 0) return { type: 'weekly', dayOfWeek: plainDay };
+  }
+  if (freq === 'WEEKLY' && key === 'BYDAY;FREQ;INTERVAL' && parts.get('INTERVAL') === '2' && plainDay >= 0) {
+    return { type: 'biweekly', dayOfWeek: plainDay };
+  }
+
+  if (freq === 'MONTHLY' && key === 'BYMONTHDAY;FREQ') {
+    if (byMonthDay === '-1') return { type: 'last_day' };
+    if (/^\d+$/.test(byMonthDay) && Number(byMonthDay) >= 1 && Number(byMonthDay) <= 28) {
+      return { type: 'monthly', monthlyRule: 'day_of_month', dayOfMonth: Number(byMonthDay) };
+    }
+  }
+  if (freq === 'MONTHLY' && key === 'BYMONTHDAY;BYSETPOS;FREQ' && parts.get('BYSETPOS') === '1') {
+    const clamped = byMonthDay.match(/^(29|30|31),-1$/);
+    if (clamped) return { type: 'monthly', monthlyRule: 'day_of_month', dayOfMonth: Number(clamped[1]) };
+  }
+  if (freq === 'MONTHLY' && key === 'BYDAY;BYSETPOS;FREQ' && byDay === WORKWEEK && parts.get('BYSETPOS') === '-1') {
+    return { type: 'monthly', monthlyRule: 'last_weekday' };
+  }
+  if (freq === 'MONTHLY' && key === 'BYDAY;FREQ' && nthDay) {
+    if (byDay === '2FR') return { type: 'second_friday' };
+    return {
+      type: 'monthly',
+      monthlyRule: 'nth_weekday',
+      weekOfMonth: Number(nthDay[1]),
+      dayOfWeek: DAY_CODES.indexOf(nthDay[2]),
+    };
+  }
+  return null;
+};
+
+/**
+ * The schedule for an RRULE: a preset when the rule is one of the forms
+ * scheduleToRRule writes, otherwise a custom rule. Throws a
+ * RecurrenceError for rules the app can't follow.
+ */
+export function rruleToSchedule(rrule: string): Schedule {
+  const parts = parseRRuleParts(rrule);
+  const preset = presetFor(parts);
+  if (preset) return preset;
+
+  const customCron = [...parts].map(([key, value]) => `${key}=${value}`).join(';');
+  parseRecurrence(customCron);
+  return { type: 'custom', customCron };
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+  const pieces: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (length + size > 75) {
+      pieces.push(current);
+      current = ' ';
+      length = 1;
+    }
+    current += char;
+    length += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatLocal = (date: CivilDate, time: TimeOfDay) =>
+  `${date.year}${pad(date.month + 1)}${pad(date.day)}T${pad(time.hour)}${pad(time.minute)}00`;
+
+const formatUtc = (instant: Date) => instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// When a scheduled task happens: its first occurrence and the RRULE
+const scheduleLines = (task: Task, rrule: string): string[] | null => {
+  const schedule = task.schedule!;
+  const first = getNextOccurrence(schedule, new Date(new Date(task.createdAt).getTime() - 1));
+  if (!first) return null;
+
+  const timeZone = schedule.timeZone && isValidTimeZone(schedule.timeZone) ? schedule.timeZone : getDeviceTimeZone();
+  const start = getZonedDateTime(first, timeZone);
+  return [`DTSTART;TZID=${timeZone}:${formatLocal(start.date, start.time)}`, `RRULE:${rrule}`];
+};
+
+const dueLine = ({ date, time }: DueDate) =>
+  time ? `DUE:${formatLocal(date, time)}` : `DUE;VALUE=DATE:${formatIsoDate(date).replace(/-/g, '')}`;
+
+const componentLines = (task: Task, timing: string[], component: IcsComponent, now: Date): string[] => {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `CREATED:${formatUtc(new Date(task.createdAt))}`,
+    `SUMMARY:${escapeText(task.text)}`,
+    `CATEGORIES:${[task.category, ...(task.tags ?? [])].map(escapeText).join(',')}`,
+    `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+    ...timing,
+  ];
+
+  const lastCompletedAt = getLastCompletedAt(task);
+  if (component === 'VTODO') {
+    lines.push(`STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    if (task.completed && lastCompletedAt) lines.push(`COMPLETED:${formatUtc(new Date(lastCompletedAt))}`);
+  }
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * An iCalendar file with one recurring component per scheduled task and,
+ * as VTODOs, one per one-off task with a due date. Other tasks are not
+ * included.
+ */
+export function exportIcs(tasks: Task[], component: IcsComponent = 'VTODO', now: Date = new Date()): IcsExport {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//CleanTasks//CleanTasks//EN', 'CALSCALE:GREGORIAN'];
+  const skipped: string[] = [];
+  let exported = 0;
+
+  for (const task of tasks) {
+    if (!task.schedule || task.schedule.type === 'none') {
+      const due = parseDueAt(task.dueAt);
+      if (!due || component !== 'VTODO') continue;
+      lines.push(...componentLines(task, [dueLine(due)], component, now));
+      exported += 1;
+      continue;
+    }
+    const rrule = scheduleToRRule(task.schedule);
+    const timing = rrule && scheduleLines(task, rrule);
+    if (!timing) {
+      skipped.push(`${task.text}: the schedule can't be written as an RRULE`);
+      continue;
+    }
+    lines.push(...componentLines(task, timing, component, now));
+    exported += 1;
+  }
+  lines.push('END:VCALENDAR');
+  return { ics: lines.map(foldLine).join('\r\n') + '\r\n', exported, skipped };
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateTime {
+  date: CivilDate;
+  time: TimeOfDay | null; // null for all-day values
+  timeZone?: string; // 'UTC' for values ending in Z, unset for floating times
+}
+
+const parseProperty = (line: string): Property | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseDateTime = (property: Property): IcsDateTime | null => {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const date = { year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) };
+  if (match[4] === undefined) return { date, time: null };
+
+  const time = { hour: Number(match[4]), minute: Number(match[5]) };
+  const timeZone = match[6] ? 'UTC' : property.params.TZID;
+  return { date, time, timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined };
+};
+
+const toInstant = (value: IcsDateTime) =>
+  zonedTimeToInstant(value.date, value.time ?? { hour: 0, minute: 0 }, value.timeZone ?? getDeviceTimeZone());
+
+// A DUE value on the device clock; floating times and dates are kept as they are
+const toDueDate = (value: IcsDateTime): DueDate => {
+  if (!value.time || !value.timeZone) return { date: value.date, time: value.time };
+  return getZonedDateTime(toInstant(value), getDeviceTimeZone());
+};
+
+const priorityFrom = (value?: string): Priority => {
+  const n = Number(value);
+  if (!value || isNaN(n) || n === 0) return 'medium';
+  return n < 5 ? 'high' : n === 5 ? 'medium' : 'low';
+};
+
+// Split into unfolded lines and group the properties of each VTODO/VEVENT
+const readComponents = (text: string): Property[][] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const components: Property[][] = [];
+  let current: Property[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    if (property.name === 'BEGIN') {
+      if (current) depth += 1;
+      else if (property.value === 'VTODO' || property.value === 'VEVENT') current = [];
+    } else if (property.name === 'END' && current) {
+      // Nested blocks such as VALARM end before their component does
+      if (depth > 0) depth -= 1;
+      else {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+  return components;
+};
+
+const componentToTask = (properties: Property[], now: Date): Task => {
+  const get = (name: string) => properties.find(p => p.name === name);
+  const uid = get('UID')?.value;
+  const text = unescapeText(get('SUMMARY')?.value ?? '').trim();
+  if (!uid) throw new Error('has no UID');
+  if (!text) throw new Error('has no summary');
+
+  const categories = (get('CATEGORIES')?.value.match(/(?:[^,\\]|\\.)+/g) ?? []).map(value => unescapeText(value).trim());
+  const created = [get('CREATED'), get('DTSTAMP')]
+    .map(p => p && parseDateTime(p))
+    .find((value): value is IcsDateTime => !!value);
+
+  const task: Task = {
+    id: uid.endsWith(UID_DOMAIN) ? uid.slice(0, -UID_DOMAIN.length) : uid,
+    text,
+    completed: get('STATUS')?.value.toUpperCase() === 'COMPLETED',
+    priority: priorityFrom(get('PRIORITY')?.value),
+    // The first of the comma-separated categories; the rest become tags
+    category: categories[0] || 'Personal',
+    createdAt: created ? toInstant(created) : now,
+  };
+  const tags = normalizeTags(categories.slice(1));
+  if (tags.length > 0) task.tags = tags;
+
+  const completedProperty = get('COMPLETED');
+  const completedAt = completedProperty && parseDateTime(completedProperty);
+  if (task.completed && completedAt) {
+    const entry: CompletionEntry = { type: 'completed', at: toInstant(completedAt).toISOString() };
+    task.history = [entry];
+  }
+
+  const rrule = get('RRULE')?.value;
+  if (rrule) {
+    const schedule = rruleToSchedule(rrule);
+    const startProperty = get('DTSTART');
+    const start = startProperty && parseDateTime(startProperty);
+    if (start) {
+      schedule.anchor = formatIsoDate(start.date);
+      if (start.time) schedule.time = `${pad(start.time.hour)}:${pad(start.time.minute)}`;
+      if (start.timeZone) schedule.timeZone = start.timeZone;
+    }
+    task.schedule = schedule;
+  } else {
+    const dueProperty = get('DUE');
+    const due = dueProperty && parseDateTime(dueProperty);
+    if (due) task.dueAt = formatDueAt(toDueDate(due));
+  }
+  return task;
+};
+
+/**
+ * Tasks from the VTODOs and VEVENTs of an iCalendar file. Components that
+ * can't become tasks, such as ones with an RRULE the app can't follow, are
+ * skipped with a reason.
+ */
+export function parseIcs(text: string, now: Date = new Date()): ParsedImport {
+  if (!/^BEGIN:VCALENDAR/i.test(text.trim())) throw new StorageError('Not an iCalendar file');
+
+  const tasks: Task[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+  for (const properties of readComponents(text)) {
+    const label = unescapeText(properties.find(p => p.name === 'SUMMARY')?.value ?? 'Untitled');
+    try {
+      const task = componentToTask(properties, now);
+      if (seen.has(task.id)) {
+        skipped.push(`${label}: appears more than once`);
+        continue;
+      }
+      seen.add(task.id);
+      tasks.push(task);
+    } catch (e) {
+      skipped.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { tasks, skipped };
+}
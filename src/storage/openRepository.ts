@@ -0,0 +1,45 @@
+/**
+ * CleanTasks - Repository Setup
+ * Picks the storage backend for the platform: SQLite on devices, and on web
+ * an in-memory repository that writes the whole list back to AsyncStorage.
+ */
+
+import { Platform } from 'react-native';
+import { InMemoryTaskRepository, TaskRepository } from './repository';
+import { SQLiteTaskRepository } from './sqliteRepository';
+import * as taskStorage from './taskStorage';
+
+// Set once the AsyncStorage list has been copied into SQLite
+const LEGACY_IMPORTED = 'legacy_imported';
+
+let opening: Promise<TaskRepository> | null = null;
+
+const openSQLite = async (): Promise<TaskRepository> => {
+  const repository = await SQLiteTaskRepository.open();
+  if ((await repository.getMeta(LEGACY_IMPORTED)) === null) {
+    // The AsyncStorage blob is left in place as a backup
+    const legacy = await taskStorage.loadTasks();
+    await repository.transaction(async () => {
+      await repository.upsert(legacy);
+      await repository.setMeta(LEGACY_IMPORTED, new Date().toISOString());
+    });
+  }
+  return repository;
+};
+
+const openAsyncStorage = async (): Promise<TaskRepository> =>
+  new InMemoryTaskRepository(await taskStorage.loadTasks(), taskStorage.saveTasks);
+
+/**
+ * The app's task repository, opened on first use.
+ */
+export function openTaskRepository(): Promise<TaskRepository> {
+  if (!opening) {
+    opening = Platform.OS === 'web' ? openAsyncStorage() : openSQLite();
+    // Let a failed open be retried
+    opening.catch(() => {
+      opening = null;
+    });
+  }
+  return opening;
+}
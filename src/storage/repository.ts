@@ -0,0 +1,96 @@
+/**
+ * CleanTasks - Task Repository
+ * The persistence interface the app talks to, plus an in-memory
+ * implementation used by tests and as the base of the web fallback.
+ * Writes touch individual tasks, so a toggle no longer rewrites the list.
+ */
+
+import { Priority, Task } from '../types';
+import { StoredTask, reviveTask, storeTask } from './schema';
+
+export interface TaskQuery {
+  completed?: boolean;
+  category?: string;
+  priority?: Priority;
+  scheduled?: boolean; // Has a schedule other than 'none'
+  search?: string; // Case-insensitive substring of the task text
+  limit?: number;
+}
+
+export interface TaskRepository {
+  get(id: string): Promise<Task | null>;
+  // Newest first, like the list on screen
+  list(query?: TaskQuery): Promise<Task[]>;
+  upsert(tasks: Task | Task[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Runs `work` atomically: if it throws, none of its writes are kept
+  transaction<T>(work: (repository: TaskRepository) => Promise<T>): Promise<T>;
+}
+
+export const isScheduled = (task: Pick<Task, 'schedule'>) => !!task.schedule && task.schedule.type !== 'none';
+
+export function matchesQuery(task: Task, query: TaskQuery = {}): boolean {
+  if (query.completed !== undefined && task.completed !== query.completed) return false;
+  if (query.category !== undefined && task.category !== query.category) return false;
+  if (query.priority !== undefined && task.priority !== query.priority) return false;
+  if (query.scheduled !== undefined && isScheduled(task) !== query.scheduled) return false;
+  if (query.search && !task.text.toLowerCase().includes(query.search.toLowerCase())) return false;
+  return true;
+}
+
+// Newest first; ids are creation timestamps, so they break ties
+export const compareNewestFirst = (a: StoredTask, b: StoredTask) =>
+  b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+
+export class InMemoryTaskRepository implements TaskRepository {
+  // Stored copies, so callers can't mutate what the repository holds
+  private tasks = new Map<string, StoredTask>();
+
+  constructor(initial: Task[] = [], private onChange?: (tasks: Task[]) => void | Promise<void>) {
+    initial.forEach(task => this.tasks.set(task.id, storeTask(task)));
+  }
+
+  async get(id: string): Promise<Task | null> {
+    const stored = this.tasks.get(id);
+    return stored ? reviveTask(stored) : null;
+  }
+
+  async list(query: TaskQuery = {}): Promise<Task[]> {
+    const matching = [...this.tasks.values()]
+      .sort(compareNewestFirst)
+      .map(reviveTask)
+      .filter(task => matchesQuery(task, query));
+    return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+  }
+
+  async upsert(tasks: Task | Task[]): Promise<void> {
+    (Array.isArray(tasks) ? tasks : [tasks]).forEach(task => this.tasks.set(task.id, storeTask(task)));
+    await this.changed();
+  }
+
+  async delete(id: string): Promise<void> {
+    this.tasks.delete(id);
+    await this.changed();
+  }
+
+  async transaction<T>(work: (repository: TaskRepository) => Promise<T>): Promise<T> {
+    const snapshot = new Map(this.tasks);
+    const onChange = this.onChange;
+    // Report the outcome once, not every write inside the transaction
+    this.onChange = undefined;
+    try {
+      const result = await work(this);
+      this.onChange = onChange;
+      await this.changed();
+      return result;
+    } catch (e) {
+      this.tasks = snapshot;
+      this.onChange = onChange;
+      throw e;
+    }
+  }
+
+  private async changed() {
+    if (this.onChange) await this.onChange(await this.list());
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * CleanTasks - Storage Schema
+ * Versioned (de)serialization of the task list. Stored documents are
+ * upgraded one version at a time by MIGRATIONS, so a blob written by any
+ * earlier release loads into the current shape.
+ *
+ *   v0  bare JSON array of tasks (releases before versioning)
+ *   v1  { version, tasks } envelope, defaults filled in
+ *   v2  lastCompletedAt folded into the completion history
+ */
+
+import { CompletionEntry, Task } from '../types';
+import { isObject } from '../utils/guards';
+
+export const SCHEMA_VERSION = 2;
+
+// A task as written to storage: dates are ISO strings
+export type StoredTask = Omit<Task, 'createdAt'> & { createdAt: string };
+
+export interface StoredDocument {
+  version: number;
+  tasks: StoredTask[];
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+// A document mid-migration; each step narrows the tasks it reads
+interface MigratingDocument {
+  version: number;
+  tasks: unknown[];
+}
+
+interface Migration {
+  // Version the document has after this step
+  version: number;
+  migrate: (doc: MigratingDocument) => MigratingDocument;
+}
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// Entries that can't be a task: not an object, or without an id
+const isTaskLike = (task: unknown): task is Record<string, unknown> => isObject(task) && task.id != null;
+
+// The fields every task needs, with defaults for any that are missing or
+// unreadable; the rest of the task is kept as it was
+const withRequiredFields = (task: Record<string, unknown>): StoredTask => ({
+  ...task,
+  id: String(task.id),
+  text: String(task.text ?? ''),
+  completed: Boolean(task.completed),
+  priority: task.priority === 'low' || task.priority === 'high' ? task.priority : 'medium',
+  category: typeof task.category === 'string' ? task.category : 'Personal',
+  createdAt: new Date(isDate(task.createdAt) ? task.createdAt : 0).toISOString(),
+});
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: doc => ({
+      version: 1,
+      tasks: doc.tasks.filter(isTaskLike).map(withRequiredFields),
+    }),
+  },
+  {
+    version: 2,
+    migrate: doc => ({
+      version: 2,
+      tasks: doc.tasks.map(task => {
+        if (!isObject(task) || typeof task.lastCompletedAt !== 'string' || !task.lastCompletedAt) return task;
+        const { lastCompletedAt, ...rest } = task;
+        if (Array.isArray(rest.history) && rest.history.length > 0) return rest;
+        const entry: CompletionEntry = { type: 'completed', at: lastCompletedAt };
+        return { ...rest, history: [entry] };
+      }),
+    }),
+  },
+];
+
+/**
+ * Bring a parsed blob of any known version up to SCHEMA_VERSION.
+ */
+export function migrate(raw: unknown): StoredDocument {
+  let doc: MigratingDocument;
+  if (Array.isArray(raw)) {
+    doc = { version: 0, tasks: raw };
+  } else if (isObject(raw) && typeof raw.version === 'number' && Array.isArray(raw.tasks)) {
+    doc = { version: raw.version, tasks: raw.tasks };
+  } else {
+    throw new StorageError('Stored tasks are not in a recognised format');
+  }
+
+  if (doc.version > SCHEMA_VERSION) {
+    throw new StorageError(
+      `Tasks were saved by a newer version of CleanTasks (schema ${doc.version}); update the app to load them`
+    );
+  }
+
+  for (const step of MIGRATIONS) {
+    if (step.version > doc.version) doc = step.migrate(doc);
+  }
+  // Current documents skip the steps, so check their tasks too; a task that
+  // can't be revived would fail every later save
+  return { version: doc.version, tasks: doc.tasks.filter(isTaskLike).map(withRequiredFields) };
+}
+
+export const reviveTask = (stored: StoredTask): Task => ({ ...stored, createdAt: new Date(stored.createdAt) });
+
+export const storeTask = (task: Task): StoredTask => ({ ...task, createdAt: new Date(task.createdAt).toISOString() });
+
+export function serializeTasks(tasks: Task[]): string {
+  const doc: StoredDocument = { version: SCHEMA_VERSION, tasks: tasks.map(storeTask) };
+  return JSON.stringify(doc);
+}
+
+/**
+ * Parse a stored blob into tasks with real Date objects. A missing blob is
+ * an empty list.
+ */
+export function deserializeTasks(json: string | null): Task[] {
+  if (!json) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new StorageError('Stored tasks are not valid JSON');
+  }
+  return migrate(raw).tasks.map(reviveTask);
+}
+
+/**
+ * Schema version of a stored blob, or null if it is unreadable.
+ */
+export function getStoredVersion(json: string): number | null {
+  try {
+    const raw = JSON.parse(json);
+    if (Array.isArray(raw)) return 0;
+    return isObject(raw) && typeof raw.version === 'number' ? raw.version : null;
+  } catch {
+    return null;
+  }
+}
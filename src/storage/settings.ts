@@ -0,0 +1,64 @@
+/**
+ * CleanTasks - Settings Storage
+ * App-wide preferences in AsyncStorage. Missing or unreadable values fall
+ * back to the defaults, so a new setting needs no migration.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Settings } from '../types';
+import { ARCHIVE_AFTER_OPTIONS } from '../utils/archive';
+import { parseTimeOfDay } from '../utils/dates';
+import { isObject } from '../utils/guards';
+import { GROUP_OPTIONS, SORT_ORDERS } from '../utils/sorting';
+import { TRASH_RETENTION_OPTIONS } from '../utils/trash';
+
+const SETTINGS_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  sortBy: 'manual',
+  groupBy: 'none',
+  trashRetentionDays: 30,
+  archiveAfterDays: 7,
+};
+
+const validTime = (value: unknown, fallback: string) =>
+  typeof value === 'string' && parseTimeOfDay(value) ? value : fallback;
+
+/**
+ * Settings from a stored value of any shape, keeping only the fields that
+ * are valid.
+ */
+export function normalizeSettings(raw: unknown): Settings {
+  const stored = isObject(raw) ? raw : {};
+  const quiet = isObject(stored.quietHours) ? stored.quietHours : {};
+  const defaults = DEFAULT_SETTINGS.quietHours;
+
+  return {
+    quietHours: {
+      enabled: typeof quiet.enabled === 'boolean' ? quiet.enabled : defaults.enabled,
+      start: validTime(quiet.start, defaults.start),
+      end: validTime(quiet.end, defaults.end),
+    },
+    sortBy: SORT_ORDERS.find(o => o.id === stored.sortBy)?.id ?? DEFAULT_SETTINGS.sortBy,
+    groupBy: GROUP_OPTIONS.find(o => o.id === stored.groupBy)?.id ?? DEFAULT_SETTINGS.groupBy,
+    trashRetentionDays:
+      TRASH_RETENTION_OPTIONS.find(o => o.days === stored.trashRetentionDays)?.days ?? DEFAULT_SETTINGS.trashRetentionDays,
+    archiveAfterDays:
+      ARCHIVE_AFTER_OPTIONS.find(o => o.days === stored.archiveAfterDays)?.days ?? DEFAULT_SETTINGS.archiveAfterDays,
+  };
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+  if (!stored) return DEFAULT_SETTINGS;
+  try {
+    return normalizeSettings(JSON.parse(stored));
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function saveSettings(settings: Settings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
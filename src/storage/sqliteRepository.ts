@@ -0,0 +1,175 @@
+/**
+ * CleanTasks - SQLite Task Repository
+ * One row per task. The columns the list is filtered and ordered by are
+ * indexed; the full task is kept as JSON in `data` and goes through the
+ * same schema migrations as the AsyncStorage blob.
+ */
+
+import * as SQLite from 'expo-sqlite';
+import { Task } from '../types';
+import { TaskQuery, TaskRepository, isScheduled } from './repository';
+import { SCHEMA_VERSION, StorageError, StoredTask, migrate, reviveTask, storeTask } from './schema';
+
+const DATABASE_NAME = 'cleantasks.db';
+
+const CREATE_TABLES = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY NOT NULL,
+    text TEXT NOT NULL,
+    completed INTEGER NOT NULL,
+    priority TEXT NOT NULL,
+    category TEXT NOT NULL,
+    schedule_type TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tasks_completed ON tasks (completed);
+  CREATE INDEX IF NOT EXISTS tasks_category ON tasks (category);
+  CREATE INDEX IF NOT EXISTS tasks_priority ON tasks (priority);
+  CREATE INDEX IF NOT EXISTS tasks_schedule_type ON tasks (schedule_type);
+  CREATE INDEX IF NOT EXISTS tasks_created_at ON tasks (created_at);
+`;
+
+interface TaskRow {
+  data: string;
+}
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+export class SQLiteTaskRepository implements TaskRepository {
+  // Set while a transaction runs, so batched writes don't try to nest one
+  private inTransaction = false;
+
+  private constructor(private db: SQLite.SQLiteDatabase) {}
+
+  /**
+   * Open the database, creating the tables and upgrading rows written by an
+   * older schema.
+   */
+  static async open(name: string = DATABASE_NAME): Promise<SQLiteTaskRepository> {
+    const db = await SQLite.openDatabaseAsync(name);
+    await db.execAsync(CREATE_TABLES);
+    const repository = new SQLiteTaskRepository(db);
+    await repository.upgrade();
+    return repository;
+  }
+
+  async getMeta(key: string): Promise<string | null> {
+    const row = await this.db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', [key]);
+    return row ? row.value : null;
+  }
+
+  async setMeta(key: string, value: string): Promise<void> {
+    await this.db.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+  }
+
+  async get(id: string): Promise<Task | null> {
+    const row = await this.db.getFirstAsync<TaskRow>('SELECT data FROM tasks WHERE id = ?', [id]);
+    return row ? reviveTask(JSON.parse(row.data)) : null;
+  }
+
+  async list(query: TaskQuery = {}): Promise<Task[]> {
+    const where: string[] = [];
+    const params: SQLite.SQLiteBindValue[] = [];
+    if (query.completed !== undefined) {
+      where.push('completed = ?');
+      params.push(query.completed ? 1 : 0);
+    }
+    if (query.category !== undefined) {
+      where.push('category = ?');
+      params.push(query.category);
+    }
+    if (query.priority !== undefined) {
+      where.push('priority = ?');
+      params.push(query.priority);
+    }
+    if (query.scheduled !== undefined) {
+      where.push(query.scheduled ? "schedule_type != 'none'" : "schedule_type = 'none'");
+    }
+    if (query.search) {
+      where.push("text LIKE ? ESCAPE '\\'");
+      params.push(`%${escapeLike(query.search)}%`);
+    }
+
+    let sql = 'SELECT data FROM tasks';
+    if (where.length > 0) sql += ` WHERE ${where.join(' AND ')}`;
+    sql += ' ORDER BY created_at DESC, id DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    const rows = await this.db.getAllAsync<TaskRow>(sql, params);
+    return rows.map(row => reviveTask(JSON.parse(row.data)));
+  }
+
+  async upsert(tasks: Task | Task[]): Promise<void> {
+    const list = Array.isArray(tasks) ? tasks : [tasks];
+    if (list.length === 1 || this.inTransaction) {
+      for (const task of list) await this.write(storeTask(task));
+      return;
+    }
+    await this.transaction(async () => {
+      for (const task of list) await this.write(storeTask(task));
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.runAsync('DELETE FROM tasks WHERE id = ?', [id]);
+  }
+
+  async transaction<T>(work: (repository: TaskRepository) => Promise<T>): Promise<T> {
+    if (this.inTransaction) return work(this);
+
+    let result!: T;
+    this.inTransaction = true;
+    try {
+      await this.db.withTransactionAsync(async () => {
+        result = await work(this);
+      });
+    } finally {
+      this.inTransaction = false;
+    }
+    return result;
+  }
+
+  private async write(task: StoredTask) {
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO tasks (id, text, completed, priority, category, schedule_type, created_at, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        task.id,
+        task.text,
+        task.completed ? 1 : 0,
+        task.priority,
+        task.category,
+        isScheduled(task) ? task.schedule!.type : 'none',
+        task.createdAt,
+        JSON.stringify(task),
+      ]
+    );
+  }
+
+  // Rows carry the schema version of the database; bring them all up to date
+  private async upgrade() {
+    const stored = await this.getMeta('schema_version');
+    const version = stored === null ? SCHEMA_VERSION : Number(stored);
+    if (version > SCHEMA_VERSION) {
+      throw new StorageError(
+        `Tasks were saved by a newer version of CleanTasks (schema ${version}); update the app to load them`
+      );
+    }
+
+    await this.transaction(async () => {
+      if (version < SCHEMA_VERSION) {
+        const rows = await this.db.getAllAsync<TaskRow>('SELECT data FROM tasks');
+        const doc = migrate({ version, tasks: rows.map(row => JSON.parse(row.data)) });
+        await this.db.runAsync('DELETE FROM tasks');
+        for (const task of doc.tasks) await this.write(task);
+      }
+      await this.setMeta('schema_version', String(SCHEMA_VERSION));
+    });
+  }
+}
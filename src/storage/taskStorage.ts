@@ -0,0 +1,43 @@
+/**
+ * CleanTasks - Task Storage
+ * Loads and saves the task list in AsyncStorage through the versioned
+ * schema. Blobs from older versions are backed up before they are upgraded.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Task } from '../types';
+import { SCHEMA_VERSION, StorageError, deserializeTasks, getStoredVersion, serializeTasks } from './schema';
+
+const TASKS_KEY = 'tasks';
+const backupKey = (version: number) => `tasks_backup_v${version}`;
+
+// Set when the stored list could not be read, so we never save over it
+let writeBlocked = false;
+
+export async function loadTasks(): Promise<Task[]> {
+  const stored = await AsyncStorage.getItem(TASKS_KEY);
+  if (!stored) return [];
+
+  let tasks: Task[];
+  try {
+    tasks = deserializeTasks(stored);
+  } catch (e) {
+    writeBlocked = e instanceof StorageError;
+    throw e;
+  }
+  writeBlocked = false;
+
+  const version = getStoredVersion(stored);
+  if (version !== null && version < SCHEMA_VERSION) {
+    await AsyncStorage.setItem(backupKey(version), stored);
+    await AsyncStorage.setItem(TASKS_KEY, serializeTasks(tasks));
+  }
+  return tasks;
+}
+
+export async function saveTasks(tasks: Task[]): Promise<void> {
+  if (writeBlocked) {
+    throw new StorageError('Not saving: the stored task list could not be loaded');
+  }
+  await AsyncStorage.setItem(TASKS_KEY, serializeTasks(tasks));
+}
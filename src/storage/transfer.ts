@@ -0,0 +1,335 @@
+/**
+ * CleanTasks - Export and Import
+ * Moves task lists between devices and into backups.
+ *
+ * JSON export format:
+ *
+ *   {
+ *     "format": "cleantasks",
+ *     "version": 2,                       // SCHEMA_VERSION of the tasks
+ *     "exportedAt": "2026-03-01T09:00:00.000Z",
+ *     "tasks": [
+ *       {
+ *         "id": "1700000000000",
+ *         "text": "Water plants",
+ *         "completed": false,
+ *         "priority": "low",              // low | medium | high
+ *         "category": "Personal",
+ *         "tags": ["balcony", "quick"],    // optional
+ *         "createdAt": "2026-01-05T08:00:00.000Z",
+ *         "schedule": { "type": "weekly_monday", "time": "09:00" },
+ *         "dueAt": "2026-03-05T17:00",    // one-off tasks; optional time
+ *         "history": [{ "type": "completed", "at": "2026-02-16T10:00:00.000Z" }],
+ *         "subtasks": [{ "id": "1", "text": "Fill the can", "done": false }]
+ *       }
+ *     ]
+ *   }
+ *
+ * Imports go through the storage migrations, so exports from older releases
+ * and the bare arrays stored before versioning are accepted too.
+ *
+ * CSV export has one row per task with the columns in CSV_COLUMNS; tags are
+ * separated by spaces and the schedule, history and subtasks cells hold the
+ * same JSON as the JSON format.
+ */
+
+import { ScheduleType, Task } from '../types';
+import { parseIsoDate, parseTimeOfDay } from '../utils/dates';
+import { parseDueAt } from '../utils/due';
+import { isObject } from '../utils/guards';
+import { validateRecurrence } from '../utils/recurrence';
+import { MONTHLY_RULES, SCHEDULE_PRESETS, WEEKS_OF_MONTH } from '../utils/scheduler';
+import { normalizeTag, parseTagInput } from '../utils/tags';
+import { isValidTimeZone } from '../utils/timezone';
+import { SCHEMA_VERSION, StorageError, StoredTask, migrate, reviveTask, storeTask } from './schema';
+
+export const EXPORT_FORMAT = 'cleantasks';
+
+export const CSV_COLUMNS = [
+  'id',
+  'text',
+  'completed',
+  'priority',
+  'category',
+  'tags',
+  'createdAt',
+  'dueAt',
+  'schedule',
+  'history',
+  'subtasks',
+] as const;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ParsedImport {
+  tasks: Task[];
+  skipped: string[]; // One readable reason per entry that was left out
+}
+
+export interface ImportResult {
+  tasks: Task[]; // The full list after the import
+  added: Task[];
+  removed: string[]; // Ids dropped by a replace
+  duplicates: string[]; // Ids already in the list, left as they were by a merge
+}
+
+const SCHEDULE_TYPES: ScheduleType[] = [...SCHEDULE_PRESETS.map(p => p.id), 'weekly'];
+
+export function exportJson(tasks: Task[], now: Date = new Date()): string {
+  return JSON.stringify(
+    { format: EXPORT_FORMAT, version: SCHEMA_VERSION, exportedAt: now.toISOString(), tasks: tasks.map(storeTask) },
+    null,
+    2
+  );
+}
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function exportCsv(tasks: Task[]): string {
+  const rows = tasks.map(storeTask).map(task =>
+    [
+      task.id,
+      task.text,
+      String(task.completed),
+      task.priority,
+      task.category,
+      task.tags?.join(' ') ?? '',
+      task.createdAt,
+      task.dueAt ?? '',
+      task.schedule ? JSON.stringify(task.schedule) : '',
+      task.history?.length ? JSON.stringify(task.history) : '',
+      task.subtasks?.length ? JSON.stringify(task.subtasks) : '',
+    ].map(csvCell)
+  );
+  return [CSV_COLUMNS.join(','), ...rows.map(row => row.join(','))].join('\r\n') + '\r\n';
+}
+
+// RFC 4180: quoted cells may hold commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new StorageError('CSV has an unclosed quote');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+const parseJsonCell = (value: string, column: string) => {
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${column} is not valid JSON`);
+  }
+};
+
+const csvToRaw = (text: string): unknown[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(name => name.trim());
+  const missing = ['id', 'text'].filter(name => !columns.includes(name));
+  if (missing.length > 0) throw new StorageError(`CSV is missing the ${missing.join(' and ')} column`);
+
+  return rows.map(row => {
+    const cells: Record<string, string> = {};
+    columns.forEach((name, i) => (cells[name] = row[i] ?? ''));
+    try {
+      return {
+        ...cells,
+        completed: cells.completed?.trim().toLowerCase() === 'true',
+        tags: cells.tags?.trim() ? parseTagInput(cells.tags) : undefined,
+        createdAt: cells.createdAt || undefined,
+        dueAt: cells.dueAt || undefined,
+        schedule: parseJsonCell(cells.schedule ?? '', 'schedule'),
+        history: parseJsonCell(cells.history ?? '', 'history'),
+        subtasks: parseJsonCell(cells.subtasks ?? '', 'subtasks'),
+      };
+    } catch (e) {
+      // Kept as a marker so the row is reported rather than silently lost
+      return { id: cells.id, invalid: e instanceof Error ? e.message : String(e) };
+    }
+  });
+};
+
+const isInteger = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const validateSchedule = (schedule: unknown): string | null => {
+  if (!isObject(schedule)) return 'schedule is not an object';
+  const { type, time, customCron, timeZone, dayOfWeek, dayOfMonth, monthlyRule, weekOfMonth, anchor } = schedule;
+  if (!SCHEDULE_TYPES.some(t => t === type)) return `unknown schedule type "${type}"`;
+  if (time !== undefined && (typeof time !== 'string' || !parseTimeOfDay(time))) {
+    return `schedule time "${time}" is not HH:MM`;
+  }
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    return `unknown time zone "${timeZone}"`;
+  }
+  if (dayOfWeek !== undefined && !isInteger(dayOfWeek, 0, 6)) return `schedule dayOfWeek "${dayOfWeek}" is not 0-6`;
+  if (dayOfMonth !== undefined && !isInteger(dayOfMonth, 1, 31)) {
+    return `schedule dayOfMonth "${dayOfMonth}" is not 1-31`;
+  }
+  if (monthlyRule !== undefined && !MONTHLY_RULES.some(rule => rule.id === monthlyRule)) {
+    return `unknown monthly rule "${monthlyRule}"`;
+  }
+  if (weekOfMonth !== undefined && !WEEKS_OF_MONTH.some(week => week === weekOfMonth)) {
+    return `schedule weekOfMonth "${weekOfMonth}" is not ${WEEKS_OF_MONTH.join(', ')}`;
+  }
+  if (anchor !== undefined && (typeof anchor !== 'string' || !parseIsoDate(anchor))) {
+    return `schedule anchor "${anchor}" is not YYYY-MM-DD`;
+  }
+  if (customCron !== undefined && typeof customCron !== 'string') return 'schedule customCron is not text';
+  if (type === 'custom') {
+    const error = validateRecurrence(customCron ?? '');
+    if (error) return error;
+  }
+  return null;
+};
+
+const isTimestamp = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isCompletionEntry = (entry: unknown) =>
+  isObject(entry) &&
+  (entry.type === 'completed' || entry.type === 'uncompleted') &&
+  isTimestamp(entry.at) &&
+  (entry.occurrence === undefined || isTimestamp(entry.occurrence)) &&
+  (entry.note === undefined || typeof entry.note === 'string');
+
+const validateHistory = (history: unknown): string | null => {
+  if (!Array.isArray(history)) return 'history is not a list';
+  return history.every(isCompletionEntry) ? null : 'history has an unreadable entry';
+};
+
+const isSubtask = (subtask: unknown) =>
+  isObject(subtask) &&
+  typeof subtask.id === 'string' &&
+  typeof subtask.text === 'string' &&
+  !!subtask.text.trim() &&
+  typeof subtask.done === 'boolean';
+
+const validateSubtasks = (subtasks: unknown): string | null => {
+  if (!Array.isArray(subtasks)) return 'subtasks is not a list';
+  return subtasks.every(isSubtask) ? null : 'subtasks has an unreadable entry';
+};
+
+const validTags = (tags: unknown) =>
+  Array.isArray(tags) && tags.every(tag => typeof tag === 'string' && normalizeTag(tag) === tag);
+
+// Why a migrated task can't be imported, or null if it is fine
+const validateTask = (task: StoredTask & { invalid?: string }): string | null => {
+  if (task.invalid) return task.invalid;
+  if (!task.text.trim()) return 'text is empty';
+  if (task.tags !== undefined && !validTags(task.tags)) return 'tags are not a list of tags';
+  if (task.dueAt !== undefined && !parseDueAt(task.dueAt)) return `dueAt "${task.dueAt}" is not YYYY-MM-DD[THH:MM]`;
+  if (task.schedule !== undefined) {
+    const error = validateSchedule(task.schedule);
+    if (error) return error;
+  }
+  if (task.history !== undefined) {
+    const error = validateHistory(task.history);
+    if (error) return error;
+  }
+  if (task.subtasks !== undefined) {
+    const error = validateSubtasks(task.subtasks);
+    if (error) return error;
+  }
+  return null;
+};
+
+/**
+ * Read an export in JSON or CSV. Entries that fail validation are skipped
+ * with a reason; input that can't be read at all throws a StorageError.
+ */
+export function parseImport(text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (!trimmed) throw new StorageError('Nothing to import');
+
+  let raw: unknown;
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      throw new StorageError('Import is not valid JSON');
+    }
+  } else {
+    raw = csvToRaw(trimmed);
+  }
+
+  const before = Array.isArray(raw) ? raw.length : isObject(raw) && Array.isArray(raw.tasks) ? raw.tasks.length : 0;
+  const doc = migrate(raw);
+  const tasks: Task[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  if (doc.tasks.length < before) {
+    skipped.push(`${before - doc.tasks.length} entries without an id`);
+  }
+  for (const task of doc.tasks) {
+    const error = validateTask(task);
+    if (error) {
+      skipped.push(`Task ${task.id}: ${error}`);
+    } else if (seen.has(task.id)) {
+      skipped.push(`Task ${task.id}: appears more than once`);
+    } else {
+      seen.add(task.id);
+      tasks.push(reviveTask(task));
+    }
+  }
+  return { tasks, skipped };
+}
+
+/**
+ * Combine an import with the current list. A merge adds tasks with new ids
+ * and leaves tasks whose id already exists untouched; a replace swaps the
+ * whole list for the import.
+ */
+export function applyImport(existing: Task[], imported: Task[], mode: ImportMode): ImportResult {
+  if (mode === 'replace') {
+    const keep = new Set(imported.map(t => t.id));
+    return {
+      tasks: imported,
+      added: imported,
+      removed: existing.filter(t => !keep.has(t.id)).map(t => t.id),
+      duplicates: [],
+    };
+  }
+
+  const ids = new Set(existing.map(t => t.id));
+  const added = imported.filter(t => !ids.has(t.id));
+  return {
+    tasks: [...added, ...existing],
+    added,
+    removed: [],
+    duplicates: imported.filter(t => ids.has(t.id)).map(t => t.id),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * CleanTasks - Shared Types
+ * Task and schedule shapes used by the app, the scheduler and the tests
+ */
+
+export type Priority = 'low' | 'medium' | 'high';
+
+export type ScheduleType =
+  | 'none'
+  | 'daily'
+  | 'weekly'
+  | 'weekly_monday'
+  | 'weekly_friday'
+  | 'biweekly'
+  | 'monthly'
+  | 'second_friday'
+  | 'last_day'
+  | 'weekdays'
+  | 'weekends'
+  | 'custom';
+
+export type MonthlyRule = 'day_of_month' | 'last_day' | 'last_weekday' | 'nth_weekday';
+
+export interface Schedule {
+  type: ScheduleType;
+  time?: string; // HH:MM format
+  dayOfWeek?: number; // 0-6, Sunday = 0
+  dayOfMonth?: number; // 1-31, clamped to the last day of short months
+  monthlyRule?: MonthlyRule; // Which day a monthly schedule falls on, default day_of_month
+  weekOfMonth?: number; // 1-4, or -1 for the last, with dayOfWeek for nth_weekday
+  customCron?: string; // Cron expression or RRULE, e.g. "FREQ=MONTHLY;BYDAY=2FR"
+  anchor?: string; // YYYY-MM-DD the biweekly and INTERVAL cadences count from
+  timeZone?: string; // IANA zone the schedule follows, e.g. "Europe/Berlin"; device zone if unset
+}
+
+// One entry in a task's append-only completion log
+export interface CompletionEntry {
+  type: 'completed' | 'uncompleted';
+  at: string; // ISO timestamp
+  occurrence?: string; // ISO timestamp of the scheduled occurrence a completion satisfied
+  note?: string;
+}
+
+// One step of a task's checklist
+export interface Subtask {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface Task {
+  id: string;
+  text: string;
+  completed: boolean;
+  priority: Priority;
+  category: string;
+  tags?: string[]; // Normalized, see src/utils/tags
+  createdAt: Date;
+  // Advanced scheduling
+  schedule?: Schedule;
+  history?: CompletionEntry[];
+  subtasks?: Subtask[]; // Ordered checklist
+  autoComplete?: boolean; // Complete the task when the last subtask is ticked
+  reminders?: boolean; // false opts the task out of notifications
+  dueAt?: string; // YYYY-MM-DD or YYYY-MM-DDTHH:MM on the device clock, for one-off tasks
+  lastCompletedAt?: string; // Superseded by history; still read for older tasks
+  deletedAt?: string; // ISO timestamp; set while the task is in the trash
+  archivedAt?: string; // ISO timestamp; set while a done one-off task is archived
+}
+
+// A user-defined category. Tasks refer to it by name; the list's order is
+// the order the picker shows
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // #RRGGBB
+  icon: string; // A single emoji
+  archived?: boolean; // Hidden from the picker; its tasks keep it
+}
+
+// Quiet hours on the device's clock; may run past midnight, e.g. 22:00-07:00
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export type SortOrder = 'manual' | 'priority' | 'due' | 'created' | 'alphabetical' | 'category';
+
+export type GroupBy = 'none' | 'category' | 'priority' | 'when';
+
+export interface Settings {
+  quietHours: QuietHours;
+  sortBy: SortOrder;
+  groupBy: GroupBy;
+  trashRetentionDays: number; // Days before trashed tasks are purged; 0 keeps them
+  archiveAfterDays: number; // Days a one-off task stays in the list once done; 0 never archives
+}
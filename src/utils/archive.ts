@@ -0,0 +1,74 @@
+/**
+ * CleanTasks - Archive
+ * One-off tasks that have been done for a while move out of the list into
+ * the archive by setting `archivedAt`. Recurring tasks are never archived;
+ * checkAndResetTasks brings them back on their next occurrence.
+ */
+
+import { Task } from '../types';
+import { DAY_MS } from './dates';
+import { getLastCompletedAt, uncompleteTask } from './history';
+
+// 0 leaves completed tasks in the list
+export const ARCHIVE_AFTER_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 0, label: 'Never' },
+];
+
+export const isArchived = (task: Task) => !!task.archivedAt;
+
+// Tasks done before the history log have no completion time; their
+// creation time is the best guess
+const getDoneSince = (task: Task) => new Date(getLastCompletedAt(task) ?? task.createdAt);
+
+const canArchive = (task: Task) =>
+  task.completed && !task.archivedAt && !task.deletedAt && (!task.schedule || task.schedule.type === 'none');
+
+/**
+ * When a task will be archived, or null if it won't be.
+ */
+export function getArchiveAt(task: Task, afterDays: number): Date | null {
+  if (afterDays <= 0 || !canArchive(task)) return null;
+  return new Date(getDoneSince(task).getTime() + afterDays * DAY_MS);
+}
+
+/**
+ * When the next task is due to be archived, or null if none is.
+ */
+export function getNextArchiveTime(tasks: Task[], afterDays: number): Date | null {
+  const times = tasks.flatMap(task => getArchiveAt(task, afterDays) ?? []);
+  return times.length > 0 ? new Date(Math.min(...times.map(t => t.getTime()))) : null;
+}
+
+/**
+ * The list with every one-off task completed at least `afterDays` ago
+ * archived, or the list itself if there are none.
+ */
+export function archiveCompletedTasks(tasks: Task[], afterDays: number, now: Date = new Date()): Task[] {
+  const due = (task: Task) => {
+    const archiveAt = getArchiveAt(task, afterDays);
+    return !!archiveAt && archiveAt.getTime() <= now.getTime();
+  };
+  if (!tasks.some(due)) return tasks;
+  return tasks.map(t => (due(t) ? { ...t, archivedAt: now.toISOString() } : t));
+}
+
+/**
+ * Bring a task back from the archive. It is reopened, since a done task
+ * would only be archived again.
+ */
+export function unarchiveTask(task: Task, at: Date): Task {
+  if (!task.archivedAt) return task;
+  const { archivedAt, ...restored } = task;
+  return restored.completed ? uncompleteTask(restored, at) : restored;
+}
+
+/**
+ * "Completed today", "Completed 12 days ago".
+ */
+export function getArchiveLabel(task: Task, now: Date = new Date()): string {
+  const ago = Math.floor((now.getTime() - getDoneSince(task).getTime()) / DAY_MS);
+  return ago <= 0 ? 'Completed today' : ago === 1 ? 'Completed yesterday' : `Completed ${ago} days ago`;
+}
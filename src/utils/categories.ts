@@ -0,0 +1,157 @@
+/**
+ * CleanTasks - Categories
+ * Managing the user's categories. Tasks store the category's name, so a
+ * rename or delete returns the task list with every affected task updated;
+ * callers save the tasks that changed identity.
+ */
+
+import { Category, Task } from '../types';
+import { isObject } from './guards';
+import { moveItem } from './lists';
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'personal', name: 'Personal', color: '#9C27B0', icon: '👤' },
+  { id: 'work', name: 'Work', color: '#2196F3', icon: '💼' },
+  { id: 'shopping', name: 'Shopping', color: '#FF9800', icon: '🛒' },
+  { id: 'health', name: 'Health', color: '#4CAF50', icon: '💪' },
+  { id: 'ideas', name: 'Ideas', color: '#E91E63', icon: '💡' },
+];
+
+export const CATEGORY_COLORS = [
+  '#9C27B0', '#2196F3', '#FF9800', '#4CAF50', '#E91E63',
+  '#00BCD4', '#FFC107', '#795548', '#607D8B', '#F44336',
+];
+
+export const CATEGORY_ICONS = ['👤', '💼', '🛒', '💪', '💡', '🍳', '🌱', '🚗', '🏠', '🐾', '📚', '💰'];
+
+// Badge color for a task whose category isn't in the list
+export const FALLBACK_COLOR = '#666';
+
+const MAX_NAME_LENGTH = 30;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Tasks in category `from` moved to `to`, or the list itself if none are in it
+const moveTasks = (tasks: Task[], from: string, to: string) =>
+  tasks.some(t => sameName(t.category, from))
+    ? tasks.map(t => (sameName(t.category, from) ? { ...t, category: to } : t))
+    : tasks;
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+/**
+ * Why a name can't be used for a category, or null if it can. Names are
+ * compared without case; `exceptId` is the category being renamed.
+ */
+export function validateCategoryName(categories: Category[], name: string, exceptId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a name';
+  if (trimmed.length > MAX_NAME_LENGTH) return `Keep the name under ${MAX_NAME_LENGTH + 1} characters`;
+  if (categories.some(c => c.id !== exceptId && sameName(c.name, trimmed))) return `"${trimmed}" already exists`;
+  return null;
+}
+
+/**
+ * Categories from a stored value of any shape. Entries without a usable id
+ * and name, or repeating one, are dropped; an empty result falls back to
+ * the defaults.
+ */
+export function normalizeCategories(raw: unknown): Category[] {
+  const categories: Category[] = [];
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    if (!isObject(entry) || typeof entry.id !== 'string' || !entry.id) continue;
+    if (typeof entry.name !== 'string' || validateCategoryName(categories, entry.name)) continue;
+    if (categories.some(c => c.id === entry.id)) continue;
+    categories.push({
+      id: entry.id,
+      name: entry.name.trim(),
+      color: isColor(entry.color) ? entry.color : FALLBACK_COLOR,
+      icon: typeof entry.icon === 'string' && entry.icon ? entry.icon : CATEGORY_ICONS[0],
+      ...(entry.archived === true && { archived: true }),
+    });
+  }
+  return categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+}
+
+export const findCategory = (categories: Category[], name: string) => categories.find(c => sameName(c.name, name));
+
+export const getCategoryColor = (categories: Category[], name: string) =>
+  findCategory(categories, name)?.color ?? FALLBACK_COLOR;
+
+/**
+ * Categories to offer in the picker: the active ones, plus `current` when a
+ * task being edited still uses an archived one.
+ */
+export const getPickerCategories = (categories: Category[], current?: string) =>
+  categories.filter(c => !c.archived || (current !== undefined && sameName(c.name, current)));
+
+/**
+ * Add a category for every task category the list doesn't know, e.g. after
+ * an import, so it can be managed like the rest. Returns `categories` itself
+ * when nothing is missing.
+ */
+export function withTaskCategories(categories: Category[], tasks: Task[], newId: (name: string) => string): Category[] {
+  const added: Category[] = [];
+  for (const task of tasks) {
+    if (!task.category.trim() || findCategory(categories, task.category) || findCategory(added, task.category)) continue;
+    added.push({
+      id: newId(task.category),
+      name: task.category.trim(),
+      color: CATEGORY_COLORS[(categories.length + added.length) % CATEGORY_COLORS.length],
+      icon: CATEGORY_ICONS[0],
+    });
+  }
+  return added.length > 0 ? [...categories, ...added] : categories;
+}
+
+/**
+ * Apply edits to a category. A new name is carried over to its tasks; the
+ * tasks that didn't change are returned as they were, and the list itself
+ * if none did.
+ */
+export function updateCategory(
+  categories: Category[],
+  tasks: Task[],
+  id: string,
+  changes: Partial<Omit<Category, 'id'>>
+): { categories: Category[]; tasks: Task[] } {
+  const category = categories.find(c => c.id === id);
+  if (!category) return { categories, tasks };
+  const name = changes.name?.trim() ?? category.name;
+  const updated = { ...category, ...changes, name };
+
+  return {
+    categories: categories.map(c => (c.id === id ? updated : c)),
+    tasks: name === category.name ? tasks : moveTasks(tasks, category.name, name),
+  };
+}
+
+/**
+ * Move a category up (negative offset) or down the list, stopping at the
+ * ends.
+ */
+export const moveCategory = (categories: Category[], id: string, offset: number) =>
+  moveItem(categories, categories.findIndex(c => c.id === id), offset);
+
+/**
+ * Remove a category and move its tasks to `reassignTo`. The last category
+ * can't be deleted, and tasks can't move to the one being deleted. The task
+ * list comes back as it was if the category held none.
+ */
+export function deleteCategory(
+  categories: Category[],
+  tasks: Task[],
+  id: string,
+  reassignTo: string
+): { categories: Category[]; tasks: Task[] } {
+  const category = categories.find(c => c.id === id);
+  const target = categories.find(c => c.id === reassignTo);
+  if (!category || !target || target.id === id) return { categories, tasks };
+
+  return {
+    categories: categories.filter(c => c.id !== id),
+    tasks: moveTasks(tasks, category.name, target.name),
+  };
+}
+
+export const countTasksInCategory = (tasks: Task[], name: string) => tasks.filter(t => sameName(t.category, name)).length;
@@ -0,0 +1,67 @@
+/**
+ * CleanTasks - Calendar Date Helpers
+ * Day arithmetic on plain calendar dates, free of time zones and DST
+ */
+
+// A calendar day without a time of day; month is 0-11 like Date
+export interface CivilDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcMs = (d: CivilDate) => Date.UTC(d.year, d.month, d.day);
+
+export const addDays = (d: CivilDate, days: number): CivilDate => {
+  const shifted = new Date(toUtcMs(d) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+};
+
+// 0 = Sunday, like Date.getDay()
+export const weekdayOf = (d: CivilDate) => new Date(toUtcMs(d)).getUTCDay();
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+export const daysBetween = (from: CivilDate, to: CivilDate) => Math.round((toUtcMs(to) - toUtcMs(from)) / DAY_MS);
+
+export const monthsBetween = (from: CivilDate, to: CivilDate) =>
+  (to.year - from.year) * 12 + (to.month - from.month);
+
+// Monday of the week containing the day
+export const startOfWeek = (d: CivilDate) => addDays(d, -((weekdayOf(d) + 6) % 7));
+
+/**
+ * Whether the day is the nth of its weekday within the month. Negative
+ * ordinals count from the end, so -1 is the last one.
+ */
+export const isNthWeekdayOfMonth = (d: CivilDate, ordinal: number) => {
+  if (ordinal > 0) return Math.ceil(d.day / 7) === ordinal;
+  const fromEnd = daysInMonth(d.year, d.month) - d.day;
+  return Math.floor(fromEnd / 7) + 1 === -ordinal;
+};
+
+export const parseIsoDate = (value?: string): CivilDate | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) };
+};
+
+export const formatIsoDate = (d: CivilDate) =>
+  `${d.year}-${String(d.month + 1).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+
+/**
+ * Parse a strict 24-hour HH:MM time such as "09:05". Returns null for
+ * anything else, including "9:5" and "25:00".
+ */
+export const parseTimeOfDay = (value?: string): TimeOfDay | null => {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+};
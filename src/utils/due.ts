@@ -0,0 +1,90 @@
+/**
+ * CleanTasks - Due Dates
+ * Deadlines for one-off tasks. `dueAt` is a wall-clock value on the device's
+ * clock: a day ("2026-03-05"), due by the end of it, or a day and time
+ * ("2026-03-05T17:00").
+ */
+
+import { Task } from '../types';
+import { CivilDate, TimeOfDay, addDays, daysBetween, daysInMonth, formatIsoDate, parseIsoDate, parseTimeOfDay } from './dates';
+import { getDeviceTimeZone, getZonedDateTime, zonedTimeToInstant } from './timezone';
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+export type DueFilter = 'any' | DueStatus;
+
+export const DUE_FILTERS: { id: DueFilter; label: string }[] = [
+  { id: 'any', label: 'Any' },
+  { id: 'today', label: 'Today' },
+  { id: 'overdue', label: 'Overdue' },
+  { id: 'upcoming', label: 'Upcoming' },
+];
+
+export interface DueDate {
+  date: CivilDate;
+  time: TimeOfDay | null; // null when due any time that day
+}
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parse a `dueAt` value, or null if it isn't a real day with an optional
+ * HH:MM time.
+ */
+export function parseDueAt(value?: string): DueDate | null {
+  const [day, time, ...rest] = (value ?? '').split('T');
+  const date = parseIsoDate(day);
+  if (!date || rest.length > 0) return null;
+  if (date.month > 11 || date.day < 1 || date.day > daysInMonth(date.year, date.month)) return null;
+  if (time === undefined) return { date, time: null };
+
+  const parsedTime = parseTimeOfDay(time);
+  return parsedTime ? { date, time: parsedTime } : null;
+}
+
+export const formatDueAt = ({ date, time }: DueDate) =>
+  time ? `${formatIsoDate(date)}T${pad(time.hour)}:${pad(time.minute)}` : formatIsoDate(date);
+
+/**
+ * The instant a task stops being on time: its due time, or the end of the
+ * due day when it has none.
+ */
+export function getDeadline(due: DueDate, timeZone: string = getDeviceTimeZone()): Date {
+  return due.time
+    ? zonedTimeToInstant(due.date, due.time, timeZone)
+    : zonedTimeToInstant(addDays(due.date, 1), { hour: 0, minute: 0 }, timeZone);
+}
+
+/**
+ * Where an open task stands against its due date, or null for tasks that
+ * are done or have none.
+ */
+export function getDueStatus(task: Task, now: Date = new Date(), timeZone: string = getDeviceTimeZone()): DueStatus | null {
+  const due = parseDueAt(task.dueAt);
+  if (!due || task.completed) return null;
+  if (getDeadline(due, timeZone).getTime() <= now.getTime()) return 'overdue';
+  return daysBetween(getZonedDateTime(now, timeZone).date, due.date) === 0 ? 'today' : 'upcoming';
+}
+
+export function matchesDueFilter(task: Task, filter: DueFilter, now?: Date, timeZone?: string): boolean {
+  return filter === 'any' || getDueStatus(task, now, timeZone) === filter;
+}
+
+/**
+ * Short label for the due badge, e.g. "Today 17:00", "Tomorrow" or "Mar 5".
+ */
+export function getDueLabel(dueAt: string | undefined, now: Date = new Date(), timeZone: string = getDeviceTimeZone()): string | null {
+  const due = parseDueAt(dueAt);
+  if (!due) return null;
+
+  const today = getZonedDateTime(now, timeZone).date;
+  const days = daysBetween(today, due.date);
+  const day =
+    days === 0 ? 'Today'
+    : days === 1 ? 'Tomorrow'
+    : days === -1 ? 'Yesterday'
+    : `${MONTH_SHORT[due.date.month]} ${due.date.day}${due.date.year !== today.year ? `, ${due.date.year}` : ''}`;
+  return due.time ? `${day} ${pad(due.time.hour)}:${pad(due.time.minute)}` : day;
+}
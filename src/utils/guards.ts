@@ -0,0 +1,10 @@
+/**
+ * CleanTasks - Type Guards
+ * Narrowing for values read from storage, imports and other untyped input.
+ */
+
+/**
+ * A plain object, as opposed to null or an array, from parsed JSON.
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
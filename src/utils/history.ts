@@ -0,0 +1,47 @@
+/**
+ * CleanTasks - Completion History
+ * Every check and un-check is appended to the task's log, never rewritten,
+ * so past cycles stay available for streaks, stats and auditing.
+ */
+
+import { CompletionEntry, Task } from '../types';
+
+const appendEntry = (task: Task, entry: CompletionEntry): Task => {
+  // lastCompletedAt is only kept for tasks written before the log existed
+  const { lastCompletedAt, ...rest } = task;
+  return { ...rest, history: [...(task.history ?? []), entry] };
+};
+
+/**
+ * Mark the task done. `occurrence` is the scheduled occurrence this
+ * completion satisfies, if the task has a schedule.
+ */
+export function completeTask(task: Task, at: Date, occurrence?: Date | null, note?: string): Task {
+  const entry: CompletionEntry = { type: 'completed', at: at.toISOString() };
+  if (occurrence) entry.occurrence = occurrence.toISOString();
+  if (note?.trim()) entry.note = note.trim();
+  return { ...appendEntry(task, entry), completed: true };
+}
+
+export function uncompleteTask(task: Task, at: Date): Task {
+  return { ...appendEntry(task, { type: 'uncompleted', at: at.toISOString() }), completed: false };
+}
+
+/**
+ * Completions that still stand, oldest first. A completion is withdrawn
+ * by an un-check that directly follows it.
+ */
+export function getCompletions(task: Task): CompletionEntry[] {
+  const history = task.history ?? [];
+  return history.filter((entry, i) => entry.type === 'completed' && history[i + 1]?.type !== 'uncompleted');
+}
+
+/**
+ * When the task was last completed, or undefined if that completion was
+ * withdrawn. Falls back to the legacy field for tasks without a log.
+ */
+export function getLastCompletedAt(task: Task): string | undefined {
+  if (!task.history || task.history.length === 0) return task.lastCompletedAt;
+  const last = task.history[task.history.length - 1];
+  return last.type === 'completed' ? last.at : undefined;
+}
@@ -0,0 +1,16 @@
+/**
+ * CleanTasks - Ids
+ * Ids for new tasks and checklist steps. They are creation timestamps in
+ * milliseconds, which the repository uses to break ties in list order.
+ */
+
+let lastId = 0;
+
+/**
+ * A new id, never the same as one handed out before in this session: ids
+ * asked for within the same millisecond count up from it.
+ */
+export function createId(now: number = Date.now()): string {
+  lastId = Math.max(now, lastId + 1);
+  return String(lastId);
+}
@@ -0,0 +1,210 @@
+/**
+ * CleanTasks - Insights
+ * Aggregations for the insights screen, all read from the completion log.
+ * Callers choose which tasks count; the app leaves out the trash but keeps
+ * the archive, since archived tasks were done.
+ *
+ * A recurring task counts once per occurrence and a one-off task once.
+ */
+
+import { Priority, Task } from '../types';
+import { CivilDate, addDays, formatIsoDate, startOfWeek, weekdayOf } from './dates';
+import { getDeadline, parseDueAt } from './due';
+import { getCompletions, getLastCompletedAt } from './history';
+import { OVERDUE_AFTER_MS } from './notifications';
+import { WEEKDAY_NAMES } from './scheduler';
+import { getOccurrenceResults } from './streaks';
+import { getDeviceTimeZone, getZonedDateTime } from './timezone';
+
+export interface BarCount {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface CompletionRate {
+  key: string;
+  label: string;
+  done: number;
+  total: number;
+  rate: number; // 0-1
+}
+
+export interface Punctuality {
+  onTime: number;
+  late: number; // Done after the due date, or an occurrence done once it was overdue
+  missed: number; // Occurrences that passed undone and open tasks past their due date
+  rate: number | null; // Share on time, null when nothing was due yet
+}
+
+const PRIORITY_LABELS: [Priority, string][] = [
+  ['high', 'High'],
+  ['medium', 'Medium'],
+  ['low', 'Low'],
+];
+
+const isRecurring = (task: Task) => !!task.schedule && task.schedule.type !== 'none';
+
+// The day each standing completion fell on
+const completionDays = (tasks: Task[], timeZone: string): CivilDate[] =>
+  tasks.flatMap(task => getCompletions(task).map(entry => getZonedDateTime(new Date(entry.at), timeZone).date));
+
+const countDays = (days: CivilDate[], keys: string[], keyOf: (day: CivilDate) => string) => {
+  const counts = new Map(keys.map(key => [key, 0]));
+  for (const day of days) {
+    const key = keyOf(day);
+    if (counts.has(key)) counts.set(key, counts.get(key)! + 1);
+  }
+  return counts;
+};
+
+/**
+ * Completions on each of the last `days` days, today last.
+ */
+export function completionsPerDay(
+  tasks: Task[],
+  days: number = 7,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): BarCount[] {
+  const today = getZonedDateTime(now, timeZone).date;
+  const range = Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+  const counts = countDays(completionDays(tasks, timeZone), range.map(formatIsoDate), formatIsoDate);
+  return range.map(day => ({
+    key: formatIsoDate(day),
+    label: WEEKDAY_NAMES[weekdayOf(day)],
+    count: counts.get(formatIsoDate(day))!,
+  }));
+}
+
+/**
+ * Completions in each of the last `weeks` weeks, this week last. Weeks start
+ * on Monday and are labelled by that day, e.g. "3/2".
+ */
+export function completionsPerWeek(
+  tasks: Task[],
+  weeks: number = 8,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): BarCount[] {
+  const thisWeek = startOfWeek(getZonedDateTime(now, timeZone).date);
+  const range = Array.from({ length: weeks }, (_, i) => addDays(thisWeek, (i - weeks + 1) * 7));
+  const counts = countDays(completionDays(tasks, timeZone), range.map(formatIsoDate), day =>
+    formatIsoDate(startOfWeek(day))
+  );
+  return range.map(week => ({
+    key: formatIsoDate(week),
+    label: `${week.month + 1}/${week.day}`,
+    count: counts.get(formatIsoDate(week))!,
+  }));
+}
+
+/**
+ * All-time completions by weekday, Monday first.
+ */
+export function completionsByWeekday(tasks: Task[], timeZone: string = getDeviceTimeZone()): BarCount[] {
+  const counts = [0, 0, 0, 0, 0, 0, 0];
+  for (const day of completionDays(tasks, timeZone)) counts[weekdayOf(day)] += 1;
+  return [1, 2, 3, 4, 5, 6, 0].map(weekday => ({
+    key: String(weekday),
+    label: WEEKDAY_NAMES[weekday],
+    count: counts[weekday],
+  }));
+}
+
+// Done and total for one task: per past occurrence, or the task itself
+const tallyTask = (task: Task, now: Date) => {
+  if (!isRecurring(task)) return { done: task.completed ? 1 : 0, total: 1 };
+  const results = getOccurrenceResults(task, now);
+  return { done: results.filter(r => r.done).length, total: results.length };
+};
+
+/**
+ * How much of what was due got done, per category or priority. Categories
+ * are matched without case and ordered by how much they hold; priorities
+ * go high to low. Groups with nothing due yet are left out.
+ */
+export function completionRates(tasks: Task[], by: 'category' | 'priority', now: Date = new Date()): CompletionRate[] {
+  const groups = new Map<string, CompletionRate>();
+  if (by === 'priority') {
+    PRIORITY_LABELS.forEach(([key, label]) => groups.set(key, { key, label, done: 0, total: 0, rate: 0 }));
+  }
+
+  for (const task of tasks) {
+    const key = by === 'priority' ? task.priority : task.category.toLowerCase();
+    const group = groups.get(key) ?? { key, label: task.category, done: 0, total: 0, rate: 0 };
+    const { done, total } = tallyTask(task, now);
+    groups.set(key, { ...group, done: group.done + done, total: group.total + total });
+  }
+
+  const rates = [...groups.values()]
+    .filter(group => group.total > 0)
+    .map(group => ({ ...group, rate: group.done / group.total }));
+  return by === 'priority' ? rates : rates.sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+/**
+ * On-time, late and missed counts for everything with a due time: the
+ * occurrences of recurring tasks and one-off tasks with a due date. An
+ * occurrence is late if done after the overdue reminder would have fired.
+ */
+export function getPunctuality(
+  tasks: Task[],
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): Punctuality {
+  let onTime = 0;
+  let late = 0;
+  let missed = 0;
+
+  for (const task of tasks) {
+    if (isRecurring(task)) {
+      for (const { start, doneAt } of getOccurrenceResults(task, now)) {
+        if (!doneAt) missed += 1;
+        else if (doneAt.getTime() <= start.getTime() + OVERDUE_AFTER_MS) onTime += 1;
+        else late += 1;
+      }
+      continue;
+    }
+    const due = parseDueAt(task.dueAt);
+    if (!due) continue;
+    const deadline = getDeadline(due, timeZone).getTime();
+    const completedAt = task.completed ? getLastCompletedAt(task) : undefined;
+    if (completedAt) {
+      if (new Date(completedAt).getTime() <= deadline) onTime += 1;
+      else late += 1;
+    } else if (!task.completed && deadline <= now.getTime()) {
+      missed += 1;
+    }
+  }
+
+  const total = onTime + late + missed;
+  return { onTime, late, missed, rate: total > 0 ? onTime / total : null };
+}
+
+/**
+ * Average time from creating a one-off task to completing it, in ms, or
+ * null if none is done. Recurring tasks are left out; they are never
+ * finished for good.
+ */
+export function averageTimeToComplete(tasks: Task[]): number | null {
+  const durations = tasks.flatMap(task => {
+    const completedAt = task.completed && !isRecurring(task) ? getLastCompletedAt(task) : undefined;
+    if (!completedAt) return [];
+    const duration = new Date(completedAt).getTime() - new Date(task.createdAt).getTime();
+    return duration >= 0 ? [duration] : [];
+  });
+  return durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null;
+}
+
+/**
+ * A duration in the largest unit that fits, e.g. "45 min", "5 h", "2.5 days".
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = ms / 3600000;
+  if (hours < 24) return `${Math.round(hours)} h`;
+  const days = Math.round((hours / 24) * 10) / 10;
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+}
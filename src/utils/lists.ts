@@ -0,0 +1,18 @@
+/**
+ * CleanTasks - List Helpers
+ * Small operations on the user-ordered lists, such as categories and a
+ * task's checklist.
+ */
+
+/**
+ * Move the item at `index` up (negative delta) or down the list, stopping at
+ * the ends. Returns the list itself when nothing moves.
+ */
+export function moveItem<T>(list: T[], index: number, delta: number): T[] {
+  if (index < 0 || index >= list.length) return list;
+  const to = Math.min(Math.max(index + delta, 0), list.length - 1);
+  if (to === index) return list;
+  const moved = [...list];
+  moved.splice(to, 0, ...moved.splice(index, 1));
+  return moved;
+}
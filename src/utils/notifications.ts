@@ -0,0 +1,171 @@
+/**
+ * CleanTasks - Notification Planning
+ * Works out which local notifications should be pending for a task list:
+ * one when each upcoming occurrence or one-off deadline comes due and a
+ * reminder if it is still open a while later. Kept free of the notification
+ * API so it can be tested; the app hands the plan to src/services/notifications.
+ */
+
+import { QuietHours, Settings, Task } from '../types';
+import { TimeOfDay, addDays, parseTimeOfDay } from './dates';
+import { getDeadline, parseDueAt } from './due';
+import { getNextOccurrence, getPreviousOccurrence, getScheduleLabel } from './scheduler';
+import { getDeviceTimeZone, getZonedDateTime, zonedTimeToInstant } from './timezone';
+
+export interface PlannedNotification {
+  id: string; // Stable for the same task, kind and occurrence
+  taskId: string;
+  kind: 'due' | 'overdue';
+  at: Date;
+  title: string;
+  body: string;
+}
+
+// Upcoming occurrences planned per task; re-planning tops them up
+export const OCCURRENCES_AHEAD = 3;
+
+// How long an occurrence may stay open before the overdue reminder
+export const OVERDUE_AFTER_MS = 2 * 60 * 60 * 1000;
+
+// When a task due on a day without a time is announced
+export const DUE_DAY_REMINDER: TimeOfDay = { hour: 9, minute: 0 };
+
+// iOS keeps at most 64 pending local notifications per app
+export const MAX_PENDING = 60;
+
+const minutesOf = (time: TimeOfDay) => time.hour * 60 + time.minute;
+
+const formatTime = (time: TimeOfDay) =>
+  `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
+
+/**
+ * Whether a wall-clock time falls inside quiet hours. The start is inside,
+ * the end is not; equal start and end means no quiet hours.
+ */
+export function isQuietTime(time: TimeOfDay, quietHours: QuietHours): boolean {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (!quietHours.enabled || !start || !end) return false;
+
+  const minute = minutesOf(time);
+  const from = minutesOf(start);
+  const to = minutesOf(end);
+  if (from === to) return false;
+  return from < to ? minute >= from && minute < to : minute >= from || minute < to;
+}
+
+/**
+ * The instant a notification should fire: `at` itself, or the end of quiet
+ * hours when `at` falls inside them.
+ */
+export function deferPastQuietHours(at: Date, quietHours: QuietHours, timeZone: string): Date {
+  const { date, time } = getZonedDateTime(at, timeZone);
+  if (!isQuietTime(time, quietHours)) return at;
+
+  const end = parseTimeOfDay(quietHours.end)!;
+  // Quiet hours that run past midnight end tomorrow when we're before midnight
+  const endsTomorrow = minutesOf(time) >= minutesOf(end);
+  return zonedTimeToInstant(endsTomorrow ? addDays(date, 1) : date, end, timeZone);
+}
+
+const planForTask = (task: Task, now: Date, timeZone: string): PlannedNotification[] => {
+  const schedule = task.schedule!;
+  const label = getScheduleLabel(schedule);
+  const timeOf = (instant: Date) => formatTime(getZonedDateTime(instant, timeZone).time);
+  const plan: PlannedNotification[] = [];
+
+  const overdue = (occurrence: Date, next: Date | null) => {
+    const at = new Date(occurrence.getTime() + OVERDUE_AFTER_MS);
+    // Once the next occurrence is due the task has reset; don't nag about the old one
+    if (next && at.getTime() >= next.getTime()) return;
+    plan.push({
+      id: `${task.id}:overdue:${occurrence.toISOString()}`,
+      taskId: task.id,
+      kind: 'overdue',
+      at,
+      title: task.text,
+      body: `Still open, due since ${timeOf(occurrence)}`,
+    });
+  };
+
+  // One more than we plan, so the last planned one knows when it ends
+  const upcoming: Date[] = [];
+  let cursor = now;
+  while (upcoming.length <= OCCURRENCES_AHEAD) {
+    const next = getNextOccurrence(schedule, cursor);
+    if (!next) break;
+    upcoming.push(next);
+    cursor = next;
+  }
+
+  // The occurrence already running, if the task hasn't been done for it
+  const current = getPreviousOccurrence(schedule, now);
+  if (current && !task.completed && current.getTime() > new Date(task.createdAt).getTime()) {
+    overdue(current, upcoming[0] ?? null);
+  }
+
+  upcoming.slice(0, OCCURRENCES_AHEAD).forEach((occurrence, i) => {
+    plan.push({
+      id: `${task.id}:due:${occurrence.toISOString()}`,
+      taskId: task.id,
+      kind: 'due',
+      at: occurrence,
+      title: task.text,
+      body: label ? `Due now · ${label}` : 'Due now',
+    });
+    overdue(occurrence, upcoming[i + 1] ?? null);
+  });
+  return plan;
+};
+
+const planForDueDate = (task: Task, timeZone: string): PlannedNotification[] => {
+  const due = parseDueAt(task.dueAt);
+  if (!due || task.completed) return [];
+
+  if (!due.time) {
+    const at = zonedTimeToInstant(due.date, DUE_DAY_REMINDER, timeZone);
+    return [{ id: `${task.id}:due:${at.toISOString()}`, taskId: task.id, kind: 'due', at, title: task.text, body: 'Due today' }];
+  }
+
+  const deadline = getDeadline(due, timeZone);
+  return [
+    { id: `${task.id}:due:${deadline.toISOString()}`, taskId: task.id, kind: 'due', at: deadline, title: task.text, body: 'Due now' },
+    {
+      id: `${task.id}:overdue:${deadline.toISOString()}`,
+      taskId: task.id,
+      kind: 'overdue',
+      at: new Date(deadline.getTime() + OVERDUE_AFTER_MS),
+      title: task.text,
+      body: `Still open, due at ${formatTime(due.time)}`,
+    },
+  ];
+};
+
+/**
+ * Notifications to have pending for the task list, soonest first. Tasks
+ * with neither a schedule nor a due date, done one-off tasks, trashed
+ * tasks and tasks opted out with `reminders: false` get none, and anything
+ * inside quiet hours moves to when they end. Quiet hours follow
+ * the device's clock, which `timeZone` stands in for.
+ */
+export function planNotifications(
+  tasks: Task[],
+  settings: Settings,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): PlannedNotification[] {
+  return tasks
+    .filter(task => task.reminders !== false && !task.deletedAt)
+    .flatMap(task =>
+      task.schedule && task.schedule.type !== 'none' ? planForTask(task, now, timeZone) : planForDueDate(task, timeZone)
+    )
+    .map(notification => {
+      const at = deferPastQuietHours(notification.at, settings.quietHours, timeZone);
+      if (at === notification.at) return notification;
+      const since = formatTime(getZonedDateTime(notification.at, timeZone).time);
+      return { ...notification, at, body: notification.kind === 'due' ? `Due since ${since}` : notification.body };
+    })
+    .filter(notification => notification.at.getTime() > now.getTime())
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(0, MAX_PENDING);
+}
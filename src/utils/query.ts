@@ -0,0 +1,279 @@
+/**
+ * CleanTasks - Search Queries
+ * The search bar's query language. Terms are separated by spaces and must
+ * all match; a leading "-" negates one.
+ *
+ *   water plants      words anywhere in the text or checklist
+ *   "exact phrase"    the phrase as typed
+ *   cat:Work          category, by prefix; cat:"Living room" for spaces
+ *   pri:high          priority: low, medium or high
+ *   is:active         active, done, recurring or overdue
+ *   sched:weekly      schedule type by prefix, or sched:none
+ *   tag:kitchen       tag by prefix; #kitchen for short
+ *   due:<7d           today, tomorrow, overdue, none, any, 2026-03-05,
+ *                     <2026-03-05, or within/after a span: <7d, >2w, <=12h
+ *   note:descaled     completion notes
+ *
+ * Parsing never fails: a term it can't read is left out of the match and
+ * reported in `errors` so the search bar can show a hint while typing.
+ */
+
+import { Priority, Task } from '../types';
+import { CivilDate, daysBetween } from './dates';
+import { getDeadline, parseDueAt } from './due';
+import { getLastCompletedAt } from './history';
+import { SCHEDULE_PRESETS, getNextOccurrence, getPreviousOccurrence } from './scheduler';
+import { normalizeTag } from './tags';
+import { getDeviceTimeZone, getZonedDateTime } from './timezone';
+
+export type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type TaskStatus = 'active' | 'done' | 'recurring' | 'overdue';
+
+export type DueCondition =
+  | { type: 'none' | 'any' | 'overdue' }
+  | { type: 'day'; offset: number } // Days from today: 0 today, 1 tomorrow
+  | { type: 'date'; op: Comparison; date: CivilDate }
+  | { type: 'within'; op: Comparison; ms: number }; // Span from now
+
+export type SearchTerm = { negated: boolean } & (
+  | { field: 'text'; value: string }
+  | { field: 'category'; value: string }
+  | { field: 'priority'; value: Priority }
+  | { field: 'status'; value: TaskStatus }
+  | { field: 'schedule'; value: string }
+  | { field: 'tag'; value: string }
+  | { field: 'note'; value: string }
+  | { field: 'due'; value: DueCondition }
+);
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  errors: string[]; // One hint per term that was left out
+}
+
+const FIELD_ALIASES: Record<string, SearchTerm['field']> = {
+  cat: 'category',
+  category: 'category',
+  pri: 'priority',
+  priority: 'priority',
+  is: 'status',
+  sched: 'schedule',
+  schedule: 'schedule',
+  tag: 'tag',
+  due: 'due',
+  note: 'note',
+  notes: 'note',
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  low: 'low',
+  med: 'medium',
+  medium: 'medium',
+  high: 'high',
+  hi: 'high',
+};
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  active: 'active',
+  open: 'active',
+  done: 'done',
+  completed: 'done',
+  recurring: 'recurring',
+  scheduled: 'recurring',
+  overdue: 'overdue',
+};
+
+const SPAN_MS: Record<string, number> = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+const SCHEDULE_IDS = [...SCHEDULE_PRESETS.map(p => p.id), 'weekly'];
+
+const FIELD_HINT = 'Try cat:, pri:, is:, sched:, tag:, due: or note:';
+
+interface Token {
+  negated: boolean;
+  field: string | null;
+  value: string;
+  quoted: boolean;
+}
+
+// Split on spaces outside quotes; `field:"a b"` keeps its value together
+const tokenize = (input: string, errors: string[]): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    const field = /^([a-z]+):/i.exec(input.slice(i));
+    if (field) i += field[0].length;
+
+    let value = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) errors.push('Close the quote to finish the phrase');
+      value = input.slice(i + 1, end < 0 ? undefined : end);
+      i = end < 0 ? input.length : end + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) value += input[i++];
+    }
+    tokens.push({ negated, field: field ? field[1].toLowerCase() : null, value, quoted });
+  }
+  return tokens;
+};
+
+const parseDueCondition = (value: string): DueCondition | null => {
+  const lower = value.toLowerCase();
+  if (lower === 'none' || lower === 'any' || lower === 'overdue') return { type: lower };
+  if (lower === 'today') return { type: 'day', offset: 0 };
+  if (lower === 'tomorrow') return { type: 'day', offset: 1 };
+
+  const match = /^(<=|>=|<|>|=)?(.*)$/.exec(lower)!;
+  const op = (match[1] ?? '=') as Comparison;
+  const span = /^(\d+)([hdw])$/.exec(match[2]);
+  if (span) return { type: 'within', op: op === '=' ? '<=' : op, ms: Number(span[1]) * SPAN_MS[span[2]] };
+
+  const due = parseDueAt(match[2]);
+  return due && !due.time ? { type: 'date', op, date: due.date } : null;
+};
+
+const parseTerm = (token: Token): SearchTerm | string => {
+  const { negated, value } = token;
+  if (token.field === null) return { negated, field: 'text', value: value.toLowerCase() };
+
+  const field = FIELD_ALIASES[token.field];
+  if (!field) return `Unknown filter "${token.field}:". ${FIELD_HINT}`;
+  if (!value.trim()) return `${token.field}: needs a value`;
+  const lower = value.trim().toLowerCase();
+
+  switch (field) {
+    case 'priority':
+      return PRIORITY_ALIASES[lower]
+        ? { negated, field, value: PRIORITY_ALIASES[lower] }
+        : `${token.field}: takes low, medium or high`;
+    case 'status':
+      return STATUS_ALIASES[lower]
+        ? { negated, field, value: STATUS_ALIASES[lower] }
+        : `${token.field}: takes active, done, recurring or overdue`;
+    case 'schedule':
+      return SCHEDULE_IDS.some(id => id.startsWith(lower))
+        ? { negated, field, value: lower }
+        : `${token.field}: takes a schedule such as daily, weekly, monthly, custom or none`;
+    case 'tag': {
+      const tag = normalizeTag(value);
+      return tag ? { negated, field, value: tag } : `${token.field}: needs a value`;
+    }
+    case 'due': {
+      const condition = parseDueCondition(value.trim());
+      return condition
+        ? { negated, field, value: condition }
+        : `${token.field}: takes today, tomorrow, overdue, none, a date like 2026-03-05 or a span like <7d`;
+    }
+    default:
+      return { negated, field, value: lower };
+  }
+};
+
+/**
+ * Read a query typed into the search bar.
+ */
+export function parseSearch(input: string): SearchQuery {
+  const errors: string[] = [];
+  const terms: SearchTerm[] = [];
+  for (const token of tokenize(input, errors)) {
+    // "#kitchen" is shorthand for tag:kitchen; a lone "#" is just text
+    const shorthand = !token.field && !token.quoted && /^#./.test(token.value);
+    const term = parseTerm(shorthand ? { ...token, field: 'tag' } : token);
+    if (typeof term === 'string') errors.push(term);
+    else if (term.field !== 'text' || term.value) terms.push(term);
+  }
+  return { terms, errors };
+}
+
+/**
+ * When the task is next due: the deadline of a one-off task, the occurrence
+ * a recurring task is open for, or its next one once it is done.
+ */
+export function getDueInstant(task: Task, now: Date = new Date(), timeZone: string = getDeviceTimeZone()): Date | null {
+  const schedule = task.schedule;
+  if (!schedule || schedule.type === 'none') {
+    const due = parseDueAt(task.dueAt);
+    return due ? getDeadline(due, timeZone) : null;
+  }
+  if (task.completed) {
+    const lastCompletedAt = getLastCompletedAt(task);
+    return lastCompletedAt ? getNextOccurrence(schedule, new Date(lastCompletedAt)) : null;
+  }
+  const current = getPreviousOccurrence(schedule, now);
+  if (current && current.getTime() > new Date(task.createdAt).getTime()) return current;
+  return getNextOccurrence(schedule, now);
+}
+
+const compare = (a: number, op: Comparison, b: number) =>
+  op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : op === '>=' ? a >= b : a === b;
+
+const matchesDue = (task: Task, condition: DueCondition, now: Date, timeZone: string): boolean => {
+  const due = getDueInstant(task, now, timeZone);
+  if (condition.type === 'none') return !due;
+  if (!due) return false;
+
+  switch (condition.type) {
+    case 'any':
+      return true;
+    case 'overdue':
+      return !task.completed && due.getTime() <= now.getTime();
+    case 'within':
+      return compare(due.getTime() - now.getTime(), condition.op, condition.ms);
+    case 'day':
+    case 'date': {
+      // Deadlines at the end of a day belong to that day, not the next
+      const day = getZonedDateTime(new Date(due.getTime() - 1), timeZone).date;
+      const today = getZonedDateTime(now, timeZone).date;
+      return condition.type === 'day'
+        ? daysBetween(today, day) === condition.offset
+        : compare(daysBetween(condition.date, day), condition.op, 0);
+    }
+  }
+};
+
+const matchesTerm = (task: Task, term: SearchTerm, now: Date, timeZone: string): boolean => {
+  switch (term.field) {
+    case 'text':
+      return [task.text, ...(task.subtasks ?? []).map(s => s.text)].some(text => text.toLowerCase().includes(term.value));
+    case 'category':
+      return task.category.toLowerCase().startsWith(term.value);
+    case 'priority':
+      return task.priority === term.value;
+    case 'status':
+      if (term.value === 'active') return !task.completed;
+      if (term.value === 'done') return task.completed;
+      if (term.value === 'recurring') return !!task.schedule && task.schedule.type !== 'none';
+      return matchesDue(task, { type: 'overdue' }, now, timeZone);
+    case 'schedule':
+      return (task.schedule?.type ?? 'none').startsWith(term.value);
+    case 'tag':
+      return (task.tags ?? []).some(tag => tag.startsWith(term.value));
+    case 'note':
+      return (task.history ?? []).some(entry => entry.note?.toLowerCase().includes(term.value));
+    case 'due':
+      return matchesDue(task, term.value, now, timeZone);
+  }
+};
+
+/**
+ * Whether a task matches every term of a query.
+ */
+export function matchesSearch(
+  task: Task,
+  query: SearchQuery,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): boolean {
+  return query.terms.every(term => matchesTerm(task, term, now, timeZone) !== term.negated);
+}
@@ -0,0 +1,365 @@
+/**
+ * CleanTasks - Custom Recurrence Rules
+ * Parses the `customCron` schedule field, which accepts either a standard
+ * five-field cron expression or a subset of iCalendar RRULE.
+ *
+ *   cron:  "0 9 * * 1-5"                  09:00 on weekdays
+ *   rrule: "FREQ=MONTHLY;BYDAY=1TU,3TU"   first and third Tuesday
+ */
+
+import {
+  CivilDate,
+  TimeOfDay,
+  daysBetween,
+  daysInMonth,
+  isNthWeekdayOfMonth,
+  monthsBetween,
+  startOfWeek,
+  weekdayOf,
+} from './dates';
+
+export interface CronRule {
+  kind: 'cron';
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday = 0
+  // Cron matches day-of-month OR day-of-week when both are restricted, and
+  // both when either starts with "*", as in "*/2" (Vixie cron)
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+export interface WeekdayRule {
+  weekday: number; // 0-6, Sunday = 0
+  ordinal?: number; // 2 = second in the month, -1 = last
+}
+
+export interface RRule {
+  kind: 'rrule';
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[]; // negative values count from the month end
+  byMonth: number[]; // 1-12
+  byHour: number[];
+  byMinute: number[];
+}
+
+export type RecurrenceRule = CronRule | RRule;
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const CRON_DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const RRULE_DAY_NAMES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+// Longest each month can be, so Feb 29 stays valid
+const MAX_MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded onto 0 below
+  { name: 'day-of-week', min: 0, max: 7, names: CRON_DAY_NAMES, nameOffset: 0 },
+];
+
+const range = (from: number, to: number, step = 1) => {
+  const values: number[] = [];
+  for (let v = from; v <= to; v += step) values.push(v);
+  return values;
+};
+
+const parseCronValue = (raw: string, field: CronField): number => {
+  const byName = field.names?.indexOf(raw.toUpperCase()) ?? -1;
+  if (byName >= 0) return byName + (field.nameOffset ?? 0);
+
+  if (!/^\d+$/.test(raw)) {
+    throw new RecurrenceError(`"${raw}" is not a valid ${field.name} value`);
+  }
+  const value = Number(raw);
+  if (value < field.min || value > field.max) {
+    throw new RecurrenceError(`${field.name} ${value} is out of range ${field.min}-${field.max}`);
+  }
+  return value;
+};
+
+const parseCronField = (source: string, field: CronField): number[] => {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [base, stepText] = part.split('/');
+    let step = 1;
+    if (stepText !== undefined) {
+      step = Number(stepText);
+      if (!/^\d+$/.test(stepText) || step < 1) {
+        throw new RecurrenceError(`Invalid step "${stepText}" in ${field.name} field`);
+      }
+    }
+
+    let from: number;
+    let to: number;
+    if (base === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (base.includes('-')) {
+      const [start, end] = base.split('-');
+      from = parseCronValue(start, field);
+      to = parseCronValue(end, field);
+      if (from > to) {
+        throw new RecurrenceError(`Range ${base} in ${field.name} field runs backwards`);
+      }
+    } else {
+      from = parseCronValue(base, field);
+      to = stepText === undefined ? from : field.max;
+    }
+
+    range(from, to, step).forEach(v => values.add(v));
+  }
+
+  return [...values].sort((a, b) => a - b);
+};
+
+const parseCron = (input: string): CronRule => {
+  const fields = input.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new RecurrenceError(
+      `Cron needs 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseCronField(f, CRON_FIELDS[i]));
+
+  return {
+    kind: 'cron',
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: [...new Set(daysOfWeek.map(d => d % 7))].sort((a, b) => a - b),
+    domRestricted: !fields[2].startsWith('*'),
+    dowRestricted: !fields[4].startsWith('*'),
+  };
+};
+
+const parseIntegerList = (key: string, value: string, isValid: (n: number) => boolean, expected: string) =>
+  value.split(',').map(item => {
+    const n = Number(item);
+    if (!/^[+-]?\d+$/.test(item) || !isValid(n)) {
+      throw new RecurrenceError(`${key} value "${item}" must be ${expected}`);
+    }
+    return n;
+  });
+
+const parseByDay = (value: string): WeekdayRule[] =>
+  value.split(',').map(item => {
+    const match = item.match(/^([+-]?\d{1,2})?([A-Z]{2})$/);
+    const weekday = match ? RRULE_DAY_NAMES.indexOf(match[2]) : -1;
+    if (!match || weekday < 0) {
+      throw new RecurrenceError(`BYDAY value "${item}" must look like MO, 2FR or -1SU`);
+    }
+    if (match[1] === undefined) return { weekday };
+
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || Math.abs(ordinal) > 5) {
+      throw new RecurrenceError(`BYDAY ordinal in "${item}" must be between 1 and 5 (or -1 to -5)`);
+    }
+    return { weekday, ordinal };
+  });
+
+const parseRRule = (input: string): RRule => {
+  const body = input.replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new RecurrenceError(`RRULE part "${part}" must be KEY=VALUE`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) throw new RecurrenceError('RRULE is missing FREQ (DAILY, WEEKLY, MONTHLY or YEARLY)');
+  if (!(FREQUENCIES as readonly string[]).includes(freq)) {
+    throw new RecurrenceError(`FREQ=${freq} is not supported; use DAILY, WEEKLY, MONTHLY or YEARLY`);
+  }
+
+  const rule: RRule = {
+    kind: 'rrule',
+    freq: freq as RRule['freq'],
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    byHour: [],
+    byMinute: [],
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        [rule.interval] = parseIntegerList(key, value, n => n >= 1, 'a positive number');
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(value);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(key, value, n => n !== 0 && Math.abs(n) <= 31, '1-31 or -1 to -31');
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(key, value, n => n >= 1 && n <= 12, '1-12');
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegerList(key, value, n => n >= 0 && n <= 23, '0-23');
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegerList(key, value, n => n >= 0 && n <= 59, '0-59');
+        break;
+      default:
+        throw new RecurrenceError(`RRULE part ${key} is not supported`);
+    }
+  }
+
+  if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY' && rule.byDay.some(d => d.ordinal !== undefined)) {
+    throw new RecurrenceError(`Numbered BYDAY values like 2FR need FREQ=MONTHLY or FREQ=YEARLY`);
+  }
+
+  return rule;
+};
+
+// Catch rules such as "the 30th of February" that can never fire
+const assertReachable = (months: number[], monthDays: number[]) => {
+  if (monthDays.length === 0 || months.length === 0) return;
+  const reachable = months.some(m => monthDays.some(d => Math.abs(d) <= MAX_MONTH_DAYS[m - 1]));
+  if (!reachable) {
+    throw new RecurrenceError(`Day ${monthDays.join(', ')} never occurs in the selected months`);
+  }
+};
+
+/**
+ * Parse a cron expression or RRULE. Throws a RecurrenceError with a
+ * message suitable for showing to the user.
+ */
+export function parseRecurrence(input: string): RecurrenceRule {
+  const source = input.trim();
+  if (!source) throw new RecurrenceError('Enter a cron expression or RRULE');
+
+  if (/^(RRULE:)?[A-Z]+=/i.test(source)) {
+    const rule = parseRRule(source);
+    assertReachable(rule.byMonth, rule.byMonthDay);
+    return rule;
+  }
+
+  const rule = parseCron(source);
+  if (!rule.dowRestricted) assertReachable(rule.months, rule.daysOfMonth);
+  return rule;
+}
+
+/**
+ * Error message for an invalid rule, or null when it parses.
+ */
+export function validateRecurrence(input: string): string | null {
+  try {
+    parseRecurrence(input);
+    return null;
+  } catch (e) {
+    if (e instanceof RecurrenceError) return e.message;
+    throw e;
+  }
+}
+
+const matchesMonthDay = (day: CivilDate, monthDays: number[]) => {
+  const length = daysInMonth(day.year, day.month);
+  return monthDays.some(d => (d > 0 ? d : length + d + 1) === day.day);
+};
+
+const matchesWeekday = (day: CivilDate, byDay: WeekdayRule[]) => {
+  const weekday = weekdayOf(day);
+  return byDay.some(d => d.weekday === weekday && (d.ordinal === undefined || isNthWeekdayOfMonth(day, d.ordinal)));
+};
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+const cronOccursOn = (rule: CronRule, day: CivilDate) => {
+  if (!rule.months.includes(day.month + 1)) return false;
+
+  const domMatch = rule.daysOfMonth.includes(day.day);
+  const dowMatch = rule.daysOfWeek.includes(weekdayOf(day));
+  if (rule.domRestricted && rule.dowRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+};
+
+const rruleOccursOn = (rule: RRule, day: CivilDate, anchor: CivilDate) => {
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.month + 1)) return false;
+  if (rule.byMonthDay.length > 0 && !matchesMonthDay(day, rule.byMonthDay)) return false;
+  if (rule.byDay.length > 0 && !matchesWeekday(day, rule.byDay)) return false;
+
+  // Without BY* parts the anchor date decides which day repeats
+  const unconstrained = rule.byMonthDay.length === 0 && rule.byDay.length === 0;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return mod(daysBetween(anchor, day), rule.interval) === 0;
+
+    case 'WEEKLY': {
+      const weeks = Math.floor(daysBetween(startOfWeek(anchor), day) / 7);
+      if (mod(weeks, rule.interval) !== 0) return false;
+      return !unconstrained || weekdayOf(day) === weekdayOf(anchor);
+    }
+
+    case 'MONTHLY':
+      if (mod(monthsBetween(anchor, day), rule.interval) !== 0) return false;
+      return !unconstrained || day.day === Math.min(anchor.day, daysInMonth(day.year, day.month));
+
+    case 'YEARLY':
+      if (mod(day.year - anchor.year, rule.interval) !== 0) return false;
+      if (rule.byMonth.length === 0 && day.month !== anchor.month) return false;
+      return !unconstrained || day.day === anchor.day;
+  }
+}
+
+/**
+ * Whether the rule has an occurrence on the given day. The anchor is the
+ * first day of the series; INTERVAL counts from it.
+ */
+export function ruleOccursOn(rule: RecurrenceRule, day: CivilDate, anchor: CivilDate): boolean {
+  return rule.kind === 'cron' ? cronOccursOn(rule, day) : rruleOccursOn(rule, day, anchor);
+}
+
+/**
+ * Times of day the rule fires on each matching day, earliest first. Empty
+ * when the rule does not say.
+ */
+export function ruleTimes(rule: RecurrenceRule): TimeOfDay[] {
+  const hours = rule.kind === 'cron' ? rule.hours : rule.byHour;
+  const minutes = rule.kind === 'cron' ? rule.minutes : rule.byMinute;
+  if (hours.length === 0 && minutes.length === 0) return [];
+
+  const times: TimeOfDay[] = [];
+  for (const hour of hours.length > 0 ? hours : [0]) {
+    for (const minute of minutes.length > 0 ? minutes : [0]) {
+      times.push({ hour, minute });
+    }
+  }
+  return times.sort((a, b) => a.hour - b.hour || a.minute - b.minute);
+}
@@ -1,97 +1,300 @@
 /**
  * CleanTasks - Scheduling Utilities
  * Extracted scheduling logic for testability
+ *
+ * Every schedule is modelled as a series of occurrences. A completed task
+ * resets once an occurrence falls after its last completion, so each
+ * schedule type only has to answer "which days does it occur on?".
  */
 
-interface Task {
-  id: string;
-  completed: boolean;
-  lastCompletedAt?: string;
-  schedule?: {
-    type: string;
-    time?: string;
-    dayOfWeek?: number;
-    dayOfMonth?: number;
-  };
+import {
+  CivilDate,
+  TimeOfDay,
+  addDays,
+  daysBetween,
+  daysInMonth,
+  isNthWeekdayOfMonth,
+  parseIsoDate,
+  parseTimeOfDay,
+  weekdayOf,
+} from './dates';
+import { parseRecurrence, ruleOccursOn, ruleTimes } from './recurrence';
+import { getLastCompletedAt } from './history';
+import { resetSubtasks } from './subtasks';
+import { getDeviceTimeZone, getZonedDateTime, isValidTimeZone, zonedTimeToInstant } from './timezone';
+import { MonthlyRule, Schedule, ScheduleType, Task } from '../types';
+
+// Advanced schedule presets
+export const SCHEDULE_PRESETS: { id: ScheduleType; label: string; description: string }[] = [
+  { id: 'none', label: 'No Schedule', description: 'Manual only' },
+  { id: 'daily', label: 'Daily', description: 'Every day at set time' },
+  { id: 'weekly_monday', label: 'Every Monday', description: 'Resets every Monday' },
+  { id: 'weekly_friday', label: 'Every Friday', description: 'Resets every Friday' },
+  { id: 'biweekly', label: 'Every 2 Weeks', description: 'Every other week' },
+  { id: 'monthly', label: 'Monthly', description: 'A day, month end or Nth weekday' },
+  { id: 'second_friday', label: '2nd Friday', description: 'Every second Friday of month' },
+  { id: 'last_day', label: 'Month End', description: 'Last day of each month' },
+  { id: 'weekdays', label: 'Weekdays Only', description: 'Monday to Friday' },
+  { id: 'weekends', label: 'Weekends', description: 'Saturday and Sunday' },
+  { id: 'custom', label: 'Custom', description: 'Cron expression or RRULE' },
+];
+
+export const MONTHLY_RULES: { id: MonthlyRule; label: string }[] = [
+  { id: 'day_of_month', label: 'Day' },
+  { id: 'last_day', label: 'Last day' },
+  { id: 'last_weekday', label: 'Last weekday' },
+  { id: 'nth_weekday', label: 'Nth weekday' },
+];
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Week-of-month choices for nth_weekday schedules
+export const WEEKS_OF_MONTH = [1, 2, 3, 4, -1];
+
+export const formatOrdinal = (n: number) => {
+  if (n === -1) return 'Last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+// How far ahead we search before deciding a schedule never occurs; long
+// enough for yearly rules and Feb 29
+const SEARCH_LIMIT_DAYS = 366 * 8;
+
+// Monday the biweekly cadence counts from when a schedule has no anchor
+const DEFAULT_ANCHOR: CivilDate = { year: 2024, month: 0, day: 1 };
+
+// Reset time for schedules saved without a (valid) time
+const MIDNIGHT: TimeOfDay = { hour: 0, minute: 0 };
+
+// Which days a monthly schedule occurs on; days past the end of a short
+// month fall on its last day
+const monthlyOccursOn = (schedule: Schedule, day: CivilDate): boolean => {
+  const lastDay = daysInMonth(day.year, day.month);
+  const weekday = weekdayOf(day);
+
+  switch (schedule.monthlyRule ?? 'day_of_month') {
+    case 'last_day':
+      return day.day === lastDay;
+
+    case 'last_weekday': {
+      const lastWeekday = weekdayOf({ ...day, day: lastDay });
+      const shift = lastWeekday === 6 ? 1 : lastWeekday === 0 ? 2 : 0;
+      return day.day === lastDay - shift;
+    }
+
+    case 'nth_weekday':
+      return weekday === (schedule.dayOfWeek ?? 1) && isNthWeekdayOfMonth(day, schedule.weekOfMonth ?? 1);
+
+    case 'day_of_month':
+      return day.day === Math.min(schedule.dayOfMonth ?? 1, lastDay);
+  }
+};
+
+// Which days a preset schedule occurs on
+const presetOccursOn = (schedule: Schedule, day: CivilDate): boolean => {
+  const weekday = weekdayOf(day);
+
+  switch (schedule.type) {
+    case 'daily':
+      return true;
+
+    case 'weekly':
+      return schedule.dayOfWeek !== undefined && weekday === schedule.dayOfWeek;
+
+    case 'weekly_monday':
+      return weekday === 1;
+
+    case 'weekly_friday':
+      return weekday === 5;
+
+    case 'biweekly': {
+      if (weekday !== (schedule.dayOfWeek ?? 1)) return false;
+      const weeks = Math.floor(daysBetween(parseIsoDate(schedule.anchor) ?? DEFAULT_ANCHOR, day) / 7);
+      return weeks % 2 === 0;
+    }
+
+    case 'monthly':
+      return monthlyOccursOn(schedule, day);
+
+    case 'second_friday':
+      return monthlyOccursOn({ ...schedule, monthlyRule: 'nth_weekday', weekOfMonth: 2, dayOfWeek: 5 }, day);
+
+    case 'last_day':
+      return monthlyOccursOn({ ...schedule, monthlyRule: 'last_day' }, day);
+
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+
+    case 'weekends':
+      return weekday === 0 || weekday === 6;
+
+    default:
+      return false;
+  }
+};
+
+interface CompiledSchedule {
+  occursOn: (day: CivilDate) => boolean;
+  times: TimeOfDay[];
 }
 
-export function checkAndResetTasks(taskList: Task[]): Task[] {
-  const now = new Date();
-  const today = now.getDay(); // 0 = Sunday
-  const date = now.getDate();
-  const month = now.getMonth();
-  const year = now.getFullYear();
-  
-  return taskList.map(task => {
-    if (!task.schedule || task.schedule.type === 'none') return task;
-    if (!task.completed) return task;
-    
-    const lastCompleted = task.lastCompletedAt ? new Date(task.lastCompletedAt) : null;
-    if (!lastCompleted) return task;
-    
-    let shouldReset = false;
-    const schedule = task.schedule;
-    
-    switch (schedule.type) {
-      case 'daily':
-        shouldReset = (now.getTime() - lastCompleted.getTime()) > 24 * 60 * 60 * 1000;
-        break;
-        
-      case 'weekly':
-      case 'weekly_monday':
-      case 'weekly_friday':
-        if (schedule.dayOfWeek !== undefined) {
-          const daysSinceSchedule = (today - schedule.dayOfWeek + 7) % 7;
-          const hoursSinceSchedule = daysSinceSchedule * 24 + 
-            (now.getHours() - (parseInt(schedule.time?.split(':')[0] || '9')));
-          shouldReset = daysSinceSchedule > 0 || (daysSinceSchedule === 0 && hoursSinceSchedule > 0);
-        }
-        break;
-        
-      case 'biweekly':
-        const weeksSince = Math.floor((now.getTime() - lastCompleted.getTime()) / (14 * 24 * 60 * 60 * 1000));
-        shouldReset = weeksSince >= 1;
-        break;
-        
-      case 'monthly':
-        if (schedule.dayOfMonth === 1) {
-          shouldReset = date === 1;
-        } else if (schedule.dayOfMonth === 31) {
-          const daysInMonth = new Date(year, month + 1, 0).getDate();
-          shouldReset = (daysInMonth >= 31 && date >= 31) || (date < lastCompleted.getDate() && date >= daysInMonth - 2);
-        } else if (schedule.dayOfMonth) {
-          shouldReset = date >= schedule.dayOfMonth && lastCompleted.getDate() < schedule.dayOfMonth;
-        }
-        break;
-        
-      case 'second_friday':
-        const firstDayOfMonth = new Date(year, month, 1);
-        const firstFriday = new Date(year, month, (5 - firstDayOfMonth.getDay() + 7) % 7 + 1);
-        const secondFriday = new Date(firstFriday);
-        secondFriday.setDate(firstFriday.getDate() + 7);
-        
-        if (now >= secondFriday) {
-          const lastResetWeek = lastCompleted.getTime() >= firstFriday.getTime() ? secondFriday : firstFriday;
-          shouldReset = lastCompleted.getTime() < lastResetWeek.getTime();
-        }
-        break;
-        
-      case 'weekdays':
-        if (today >= 1 && today <= 5) {
-          shouldReset = today !== lastCompleted.getDay();
-        }
-        break;
-        
-      case 'weekends':
-        if (today === 0 || today === 6) {
-          shouldReset = today !== lastCompleted.getDay();
+// Resolve a schedule into a day matcher plus the times it fires on those
+// days; null for schedules that never occur, such as an invalid custom rule
+const compileSchedule = (schedule: Schedule): CompiledSchedule | null => {
+  const time = parseTimeOfDay(schedule.time) ?? MIDNIGHT;
+  if (schedule.type !== 'custom') {
+    return { occursOn: day => presetOccursOn(schedule, day), times: [time] };
+  }
+
+  try {
+    const rule = parseRecurrence(schedule.customCron ?? '');
+    const anchor = parseIsoDate(schedule.anchor) ?? DEFAULT_ANCHOR;
+    // Times spelled out in the rule win over the schedule's reset time
+    const times = ruleTimes(rule);
+    return { occursOn: day => ruleOccursOn(rule, day, anchor), times: times.length > 0 ? times : [time] };
+  } catch {
+    return null;
+  }
+};
+
+const resolveTimeZone = (schedule: Schedule) =>
+  schedule.timeZone && isValidTimeZone(schedule.timeZone) ? schedule.timeZone : getDeviceTimeZone();
+
+/**
+ * First occurrence of the schedule strictly after `after`, or null if the
+ * schedule never occurs. Occurrences fall at the schedule's `time` (HH:MM),
+ * or midnight without one, on the wall clock of the schedule's time zone
+ * (the device's if unset or unknown); custom rules may name their own times.
+ */
+export function getNextOccurrence(schedule: Schedule, after: Date): Date | null {
+  const compiled = compileSchedule(schedule);
+  if (!compiled) return null;
+
+  const timeZone = resolveTimeZone(schedule);
+  let day = getZonedDateTime(after, timeZone).date;
+  for (let i = 0; i <= SEARCH_LIMIT_DAYS; i++) {
+    if (compiled.occursOn(day)) {
+      for (const time of compiled.times) {
+        const occurrence = zonedTimeToInstant(day, time, timeZone);
+        if (occurrence.getTime() > after.getTime()) return occurrence;
+      }
+    }
+    day = addDays(day, 1);
+  }
+  return null;
+}
+
+/**
+ * Latest occurrence of the schedule at or before `at`, or null if there is
+ * none within the search window. This is the occurrence a completion at
+ * `at` satisfies.
+ */
+export function getPreviousOccurrence(schedule: Schedule, at: Date): Date | null {
+  const compiled = compileSchedule(schedule);
+  if (!compiled) return null;
+
+  const timeZone = resolveTimeZone(schedule);
+  const latestFirst = [...compiled.times].reverse();
+  let day = getZonedDateTime(at, timeZone).date;
+  for (let i = 0; i <= SEARCH_LIMIT_DAYS; i++) {
+    if (compiled.occursOn(day)) {
+      for (const time of latestFirst) {
+        const occurrence = zonedTimeToInstant(day, time, timeZone);
+        if (occurrence.getTime() <= at.getTime()) return occurrence;
+      }
+    }
+    day = addDays(day, -1);
+  }
+  return null;
+}
+
+/**
+ * Every occurrence of the schedule after `from` and at or before `to`,
+ * oldest first. One pass over the days in between, so it is much cheaper
+ * than stepping back with getPreviousOccurrence.
+ */
+export function getOccurrencesBetween(schedule: Schedule, from: Date, to: Date): Date[] {
+  const compiled = compileSchedule(schedule);
+  if (!compiled || to.getTime() <= from.getTime()) return [];
+
+  const timeZone = resolveTimeZone(schedule);
+  const occurrences: Date[] = [];
+  let day = getZonedDateTime(from, timeZone).date;
+  const last = getZonedDateTime(to, timeZone).date;
+  while (daysBetween(day, last) >= 0) {
+    if (compiled.occursOn(day)) {
+      for (const time of compiled.times) {
+        const occurrence = zonedTimeToInstant(day, time, timeZone);
+        if (occurrence.getTime() > from.getTime() && occurrence.getTime() <= to.getTime()) {
+          occurrences.push(occurrence);
         }
-        break;
+      }
     }
-    
-    if (shouldReset) {
-      return { ...task, completed: false };
+    day = addDays(day, 1);
+  }
+  return occurrences;
+}
+
+/**
+ * Un-complete every scheduled task whose next occurrence has passed and
+ * untick its subtasks. `now` is injectable so callers and tests share one
+ * clock.
+ */
+export function checkAndResetTasks(taskList: Task[], now: Date = new Date()): Task[] {
+  return taskList.map(task => {
+    if (!task.schedule || task.schedule.type === 'none') return task;
+    // Trashed tasks wait until they are restored
+    if (!task.completed || task.deletedAt) return task;
+
+    const lastCompletedAt = getLastCompletedAt(task);
+    if (!lastCompletedAt) return task;
+    const lastCompleted = new Date(lastCompletedAt);
+
+    // Reset once an occurrence has fallen between the last completion and now
+    const next = getNextOccurrence(task.schedule, lastCompleted);
+    if (next && next.getTime() <= now.getTime()) {
+      return resetSubtasks({ ...task, completed: false });
     }
     return task;
   });
 }
+
+/**
+ * When the next scheduled reset falls across all tasks, or null if no
+ * completed task is waiting on one. The app sleeps until then instead of
+ * polling.
+ */
+export function getNextResetTime(taskList: Task[]): Date | null {
+  let earliest: Date | null = null;
+  for (const task of taskList) {
+    if (!task.schedule || task.schedule.type === 'none' || !task.completed || task.deletedAt) continue;
+
+    const lastCompletedAt = getLastCompletedAt(task);
+    if (!lastCompletedAt) continue;
+
+    const next = getNextOccurrence(task.schedule, new Date(lastCompletedAt));
+    if (next && (!earliest || next.getTime() < earliest.getTime())) earliest = next;
+  }
+  return earliest;
+}
+
+/**
+ * Short label for the schedule badge, e.g. "Monthly · 2nd Fri".
+ */
+export function getScheduleLabel(schedule?: Schedule): string | null {
+  if (!schedule || schedule.type === 'none') return null;
+  const label = SCHEDULE_PRESETS.find(p => p.id === schedule.type)?.label ?? null;
+  if (schedule.type !== 'monthly' || !label) return label;
+
+  switch (schedule.monthlyRule ?? 'day_of_month') {
+    case 'last_day':
+      return `${label} · Last day`;
+    case 'last_weekday':
+      return `${label} · Last weekday`;
+    case 'nth_weekday':
+      return `${label} · ${formatOrdinal(schedule.weekOfMonth ?? 1)} ${WEEKDAY_NAMES[schedule.dayOfWeek ?? 1]}`;
+    case 'day_of_month':
+      return `${label} · ${formatOrdinal(schedule.dayOfMonth ?? 1)}`;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * CleanTasks - Sorting and Grouping
+ * Orders the task list and splits it into sections. Sorting is stable, so
+ * tasks that compare equal keep the list's own order, newest first.
+ */
+
+import { Category, GroupBy, Priority, SortOrder, Task } from '../types';
+import { addDays, daysBetween, startOfWeek } from './dates';
+import { getDueInstant } from './query';
+import { getDeviceTimeZone, getZonedDateTime } from './timezone';
+
+export const SORT_ORDERS: { id: SortOrder; label: string }[] = [
+  { id: 'manual', label: 'Newest' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'due', label: 'Due' },
+  { id: 'created', label: 'Created' },
+  { id: 'alphabetical', label: 'A-Z' },
+  { id: 'category', label: 'Category' },
+];
+
+export const GROUP_OPTIONS: { id: GroupBy; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'category', label: 'Category' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'when', label: 'When' },
+];
+
+export interface TaskSection {
+  key: string;
+  title: string | null; // null when the list isn't grouped
+  tasks: Task[];
+}
+
+export interface SortContext {
+  categories: Category[]; // Category order is the user's
+  now?: Date;
+  timeZone?: string;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+const PRIORITY_TITLES: Record<Priority, string> = { high: 'High priority', medium: 'Medium priority', low: 'Low priority' };
+
+const WHEN_SECTIONS = [
+  { key: 'overdue', title: 'Overdue' },
+  { key: 'today', title: 'Today' },
+  { key: 'week', title: 'This week' },
+  { key: 'later', title: 'Later' },
+  { key: 'none', title: 'No upcoming date' },
+] as const;
+
+type WhenKey = (typeof WHEN_SECTIONS)[number]['key'];
+
+const categoryRank = (categories: Category[], name: string) => {
+  const index = categories.findIndex(c => c.name.toLowerCase() === name.toLowerCase());
+  return index < 0 ? categories.length : index;
+};
+
+const byText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+const compareCategory = (categories: Category[], a: Task, b: Task) =>
+  categoryRank(categories, a.category) - categoryRank(categories, b.category) || byText(a.category, b.category);
+
+/**
+ * The tasks in the chosen order; `manual` keeps them as they are.
+ */
+export function sortTasks(tasks: Task[], sortBy: SortOrder, context: SortContext): Task[] {
+  const now = context.now ?? new Date();
+  const timeZone = context.timeZone ?? getDeviceTimeZone();
+
+  switch (sortBy) {
+    case 'priority':
+      return [...tasks].sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+    case 'due': {
+      // Soonest first, tasks with no upcoming date last
+      const due = new Map(tasks.map(t => [t.id, getDueInstant(t, now, timeZone)?.getTime() ?? Infinity]));
+      return [...tasks].sort((a, b) => {
+        const diff = due.get(a.id)! - due.get(b.id)!;
+        return isNaN(diff) ? 0 : diff;
+      });
+    }
+    case 'created':
+      return [...tasks].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    case 'alphabetical':
+      return [...tasks].sort((a, b) => byText(a.text, b.text));
+    case 'category':
+      return [...tasks].sort((a, b) => compareCategory(context.categories, a, b));
+    default:
+      return tasks;
+  }
+}
+
+/**
+ * Which "when" section a task belongs to, going by when it is next due.
+ * Weeks start on Monday.
+ */
+export function getWhenSection(task: Task, now: Date = new Date(), timeZone: string = getDeviceTimeZone()): WhenKey {
+  const due = getDueInstant(task, now, timeZone);
+  if (!due) return 'none';
+  if (due.getTime() <= now.getTime()) return task.completed ? 'none' : 'overdue';
+
+  const today = getZonedDateTime(now, timeZone).date;
+  // A deadline at midnight belongs to the day before
+  const day = getZonedDateTime(new Date(due.getTime() - 1), timeZone).date;
+  if (daysBetween(today, day) <= 0) return 'today';
+  return daysBetween(addDays(startOfWeek(today), 6), day) <= 0 ? 'week' : 'later';
+}
+
+/**
+ * Split already sorted tasks into sections, skipping empty ones. Without
+ * grouping everything is one untitled section.
+ */
+export function groupTasks(tasks: Task[], groupBy: GroupBy, context: SortContext): TaskSection[] {
+  const now = context.now ?? new Date();
+  const timeZone = context.timeZone ?? getDeviceTimeZone();
+
+  let sections: TaskSection[];
+  let keyOf: (task: Task) => string;
+  switch (groupBy) {
+    case 'category': {
+      // Categories are matched without case, like everywhere else
+      const names = new Map(tasks.map(t => [t.category.toLowerCase(), t.category]));
+      sections = [...names.entries()]
+        .sort(([, a], [, b]) => categoryRank(context.categories, a) - categoryRank(context.categories, b) || byText(a, b))
+        .map(([key, name]) => {
+          const category = context.categories.find(c => c.name.toLowerCase() === key);
+          return { key, title: category ? `${category.icon} ${category.name}` : name, tasks: [] };
+        });
+      keyOf = task => task.category.toLowerCase();
+      break;
+    }
+    case 'priority':
+      sections = (['high', 'medium', 'low'] as Priority[]).map(p => ({ key: p, title: PRIORITY_TITLES[p], tasks: [] }));
+      keyOf = task => task.priority;
+      break;
+    case 'when':
+      sections = WHEN_SECTIONS.map(s => ({ key: s.key, title: s.title, tasks: [] }));
+      keyOf = task => getWhenSection(task, now, timeZone);
+      break;
+    default:
+      return tasks.length > 0 ? [{ key: 'all', title: null, tasks }] : [];
+  }
+
+  const byKey = new Map(sections.map(s => [s.key, s]));
+  for (const task of tasks) byKey.get(keyOf(task))?.tasks.push(task);
+  return sections.filter(s => s.tasks.length > 0);
+}
@@ -0,0 +1,134 @@
+/**
+ * CleanTasks - Streaks
+ * Splits a recurring task's life into periods, one per scheduled occurrence,
+ * and checks each against the completion log. A period that ends without a
+ * completion is a miss.
+ *
+ * Results are cached per task object. The reducer hands back the same object
+ * for a task it did not change, so a render only redoes the tasks that did,
+ * plus any whose running period has moved on.
+ */
+
+import { CompletionEntry, Task } from '../types';
+import { DAY_MS } from './dates';
+import { getCompletions } from './history';
+import { getOccurrencesBetween, getPreviousOccurrence } from './scheduler';
+
+export interface StreakStats {
+  current: number; // Periods completed in a row, up to now
+  best: number;
+  missed: number; // Periods that ended without a completion
+  missedInARow: number; // Misses since the last completed period
+  lastMissedAt?: string; // ISO start of the most recent missed period
+}
+
+export interface OccurrenceResult {
+  start: Date;
+  done: boolean;
+  doneAt: Date | null; // When the first completion that counted for it happened
+}
+
+interface Period {
+  start: Date;
+  end: Date | null; // null for the period still running
+  partial: boolean; // Started before the task existed, so it cannot be missed
+}
+
+interface PeriodResult extends OccurrenceResult {
+  closed: boolean; // Ended after the task existed, so it counts even when not done
+}
+
+// How far back we look from the running period
+const LOOKBACK_MS = 366 * DAY_MS;
+
+// Periods from the one the task was created in, or a year back for older
+// tasks, to the one running at `current`
+const collectPeriods = (task: Task, current: Date): Period[] => {
+  const createdAt = new Date(task.createdAt).getTime();
+  const from = new Date(Math.max(createdAt, current.getTime() - LOOKBACK_MS));
+  const first = getPreviousOccurrence(task.schedule!, from);
+  const starts = [...(first ? [first] : []), ...getOccurrencesBetween(task.schedule!, from, current)];
+
+  return starts.map((start, i) => ({
+    start,
+    end: starts[i + 1] ?? null,
+    partial: start.getTime() <= createdAt,
+  }));
+};
+
+const completionsOf = (task: Task): CompletionEntry[] => {
+  const completions = getCompletions(task);
+  if (completions.length === 0 && task.lastCompletedAt) {
+    return [{ type: 'completed', at: task.lastCompletedAt }];
+  }
+  return completions;
+};
+
+// Matched by recorded occurrence, or by time for entries without one or
+// recorded before the schedule was edited
+const satisfies = (entry: CompletionEntry, period: Period) => {
+  if (entry.occurrence && new Date(entry.occurrence).getTime() === period.start.getTime()) return true;
+  const at = new Date(entry.at).getTime();
+  return at >= period.start.getTime() && (period.end === null || at < period.end.getTime());
+};
+
+const cache = new WeakMap<Task, { current: number; results: PeriodResult[] }>();
+
+// Every period with whether it was done, oldest first; reused until the task
+// changes or a new period starts
+const getPeriodResults = (task: Task, now: Date): PeriodResult[] => {
+  const current = getPreviousOccurrence(task.schedule!, now);
+  if (!current) return [];
+  const cached = cache.get(task);
+  if (cached && cached.current === current.getTime()) return cached.results;
+
+  const completions = completionsOf(task);
+  const results = collectPeriods(task, current).map(period => {
+    const entry = completions.find(e => satisfies(e, period));
+    return {
+      start: period.start,
+      done: !!entry,
+      doneAt: entry ? new Date(entry.at) : null,
+      closed: period.end !== null && !period.partial,
+    };
+  });
+  cache.set(task, { current: current.getTime(), results });
+  return results;
+};
+
+/**
+ * How each occurrence of a recurring task went, oldest first. The running
+ * occurrence and one that started before the task existed can't be missed,
+ * so they only appear once done. Empty for tasks without a schedule.
+ */
+export function getOccurrenceResults(task: Task, now: Date = new Date()): OccurrenceResult[] {
+  if (!task.schedule || task.schedule.type === 'none') return [];
+
+  return getPeriodResults(task, now)
+    .filter(result => result.done || result.closed)
+    .map(({ start, done, doneAt }) => ({ start, done, doneAt }));
+}
+
+/**
+ * Streak and miss counts for a recurring task, or null for tasks without a
+ * schedule.
+ */
+export function computeStreaks(task: Task, now: Date = new Date()): StreakStats | null {
+  if (!task.schedule || task.schedule.type === 'none') return null;
+
+  const stats: StreakStats = { current: 0, best: 0, missed: 0, missedInARow: 0 };
+
+  for (const result of getPeriodResults(task, now)) {
+    if (result.done) {
+      stats.current += 1;
+      stats.best = Math.max(stats.best, stats.current);
+      stats.missedInARow = 0;
+    } else if (result.closed) {
+      stats.current = 0;
+      stats.missed += 1;
+      stats.missedInARow += 1;
+      stats.lastMissedAt = result.start.toISOString();
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,60 @@
+/**
+ * CleanTasks - Subtasks
+ * A task's checklist. Ticking steps off can complete the task when it has
+ * `autoComplete` set, and a recurring reset unticks every step again.
+ */
+
+import { Subtask, Task } from '../types';
+import { completeTask, uncompleteTask } from './history';
+import { moveItem } from './lists';
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+export function addSubtask(subtasks: Subtask[], text: string, id: string): Subtask[] {
+  return text.trim() ? [...subtasks, { id, text: text.trim(), done: false }] : subtasks;
+}
+
+export const removeSubtask = (subtasks: Subtask[], id: string) => subtasks.filter(s => s.id !== id);
+
+/**
+ * Move a step up (negative offset) or down the checklist, stopping at the
+ * ends.
+ */
+export const moveSubtask = (subtasks: Subtask[], id: string, offset: number) =>
+  moveItem(subtasks, subtasks.findIndex(s => s.id === id), offset);
+
+/**
+ * How many steps are ticked, or null for a task without a checklist.
+ */
+export function getSubtaskProgress(task: Task): SubtaskProgress | null {
+  if (!task.subtasks || task.subtasks.length === 0) return null;
+  return { done: task.subtasks.filter(s => s.done).length, total: task.subtasks.length };
+}
+
+/**
+ * Tick or untick one step. With `autoComplete`, ticking the last open step
+ * completes the task for `occurrence`, and unticking a step of a completed
+ * task reopens it.
+ */
+export function toggleSubtask(task: Task, id: string, at: Date, occurrence?: Date | null): Task {
+  if (!task.subtasks?.some(s => s.id === id)) return task;
+  const subtasks = task.subtasks.map(s => (s.id === id ? { ...s, done: !s.done } : s));
+  const updated = { ...task, subtasks };
+  if (!task.autoComplete) return updated;
+
+  const allDone = subtasks.every(s => s.done);
+  if (allDone && !task.completed) return completeTask(updated, at, occurrence);
+  if (!allDone && task.completed) return uncompleteTask(updated, at);
+  return updated;
+}
+
+/**
+ * The task with every step unticked, or the task itself if none is ticked.
+ */
+export function resetSubtasks(task: Task): Task {
+  if (!task.subtasks?.some(s => s.done)) return task;
+  return { ...task, subtasks: task.subtasks.map(s => (s.done ? { ...s, done: false } : s)) };
+}
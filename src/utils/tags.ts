@@ -0,0 +1,80 @@
+/**
+ * CleanTasks - Tags
+ * Free-form labels that cut across categories, e.g. a room, a person or
+ * the effort a task takes. Tags are stored normalized: lowercase, without
+ * a leading #, and with dashes for spaces, so "#Living Room" and
+ * "living-room" are the same tag.
+ */
+
+import { Task } from '../types';
+
+// Suggestions shown under the tag input
+export const MAX_SUGGESTIONS = 6;
+
+const MAX_TAG_LENGTH = 24;
+
+/**
+ * The stored form of a tag, or null if nothing usable is left.
+ */
+export function normalizeTag(input: string): string | null {
+  const tag = input
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s,]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/**
+ * Normalize a list of tags, dropping empty ones and repeats.
+ */
+export function normalizeTags(inputs: string[]): string[] {
+  const tags: string[] = [];
+  for (const input of inputs) {
+    const tag = normalizeTag(input);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Tags typed into one field, separated by commas or spaces.
+ */
+export const parseTagInput = (input: string) => normalizeTags(input.split(/[\s,]+/));
+
+export const addTag = (tags: string[], input: string) => normalizeTags([...tags, input]);
+
+export const removeTag = (tags: string[], tag: string) => tags.filter(t => t !== tag);
+
+/**
+ * Every tag in use, most used first and alphabetically among equals.
+ */
+export function getAllTags(tasks: Task[]): string[] {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+}
+
+/**
+ * Existing tags to offer while typing: those starting with the input come
+ * before those merely containing it, and tags the task has are left out.
+ */
+export function suggestTags(allTags: string[], input: string, current: string[] = []): string[] {
+  const query = normalizeTag(input);
+  const available = allTags.filter(tag => !current.includes(tag));
+  if (!query) return available.slice(0, MAX_SUGGESTIONS);
+
+  const prefixed = available.filter(tag => tag.startsWith(query));
+  const containing = available.filter(tag => !tag.startsWith(query) && tag.includes(query));
+  return [...prefixed, ...containing].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Whether a task carries every selected tag; no selection matches all.
+ */
+export const matchesTagFilter = (task: Task, selected: string[]) =>
+  selected.every(tag => task.tags?.includes(tag) ?? false);
@@ -0,0 +1,91 @@
+/**
+ * CleanTasks - Time Zone Helpers
+ * Converts between instants and wall-clock time in an IANA time zone, so
+ * schedules follow the clock on the wall across DST changes and travel.
+ */
+
+import { CivilDate, TimeOfDay, DAY_MS } from './dates';
+
+export interface ZonedDateTime {
+  date: CivilDate;
+  time: TimeOfDay;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock date and time of an instant in the given zone.
+ */
+export function getZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    date: { year: parts.year, month: parts.month - 1, day: parts.day },
+    // Some engines still render midnight as 24 with h23
+    time: { hour: parts.hour % 24, minute: parts.minute },
+  };
+}
+
+const wallClockMs = ({ date, time }: ZonedDateTime) =>
+  Date.UTC(date.year, date.month, date.day, time.hour, time.minute);
+
+// Minutes the zone is ahead of UTC at the given instant
+const offsetAt = (ms: number, timeZone: string) => {
+  const minute = Math.floor(ms / 60000) * 60000;
+  return (wallClockMs(getZonedDateTime(new Date(minute), timeZone)) - minute) / 60000;
+};
+
+/**
+ * The instant a wall-clock time happens in the given zone. A time skipped
+ * by a spring-forward change moves later by the size of the gap; a time
+ * repeated by a fall-back change resolves to its first occurrence.
+ */
+export function zonedTimeToInstant(date: CivilDate, time: TimeOfDay, timeZone: string): Date {
+  const wall = wallClockMs({ date, time });
+  const offsetBefore = offsetAt(wall - DAY_MS, timeZone);
+  const offsetAfter = offsetAt(wall + DAY_MS, timeZone);
+
+  const matches = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => wall - offset * 60000)
+    .filter(ms => wallClockMs(getZonedDateTime(new Date(ms), timeZone)) === wall);
+
+  if (matches.length > 0) return new Date(Math.min(...matches));
+  return new Date(wall - offsetBefore * 60000);
+}
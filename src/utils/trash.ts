@@ -0,0 +1,70 @@
+/**
+ * CleanTasks - Trash
+ * Deleting a task moves it to the trash by setting `deletedAt`; it keeps
+ * its schedule and history so a restore brings it back as it was. Trashed
+ * tasks are purged once they have been there for the retention period.
+ */
+
+import { Task } from '../types';
+import { DAY_MS } from './dates';
+
+// 0 keeps trashed tasks until they are deleted by hand
+export const TRASH_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Forever' },
+];
+
+export const isTrashed = (task: Task) => !!task.deletedAt;
+
+export const withoutTrash = (tasks: Task[]) => tasks.filter(t => !isTrashed(t));
+
+export const trashTask = (task: Task, at: Date): Task => ({ ...task, deletedAt: at.toISOString() });
+
+export function restoreTask(task: Task): Task {
+  if (!task.deletedAt) return task;
+  const { deletedAt, ...restored } = task;
+  return restored;
+}
+
+/**
+ * When a trashed task will be purged, or null if it is kept forever.
+ */
+export function getPurgeAt(task: Task, retentionDays: number): Date | null {
+  if (!task.deletedAt || retentionDays <= 0) return null;
+  return new Date(new Date(task.deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * The list without the trashed tasks whose retention has run out, or the
+ * list itself if there are none.
+ */
+export function purgeTrash(tasks: Task[], retentionDays: number, now: Date = new Date()): Task[] {
+  const expired = (task: Task) => {
+    const purgeAt = getPurgeAt(task, retentionDays);
+    return !!purgeAt && purgeAt.getTime() <= now.getTime();
+  };
+  return tasks.some(expired) ? tasks.filter(t => !expired(t)) : tasks;
+}
+
+/**
+ * When the next trashed task is due to be purged, or null if none is.
+ */
+export function getNextPurgeTime(tasks: Task[], retentionDays: number): Date | null {
+  const times = tasks.flatMap(task => getPurgeAt(task, retentionDays) ?? []);
+  return times.length > 0 ? new Date(Math.min(...times.map(t => t.getTime()))) : null;
+}
+
+/**
+ * "Deleted today", "Deleted 3 days ago" and how long until the purge.
+ */
+export function getTrashLabel(task: Task, retentionDays: number, now: Date = new Date()): string {
+  if (!task.deletedAt) return '';
+  const ago = Math.floor((now.getTime() - new Date(task.deletedAt).getTime()) / DAY_MS);
+  const deleted = ago <= 0 ? 'Deleted today' : ago === 1 ? 'Deleted yesterday' : `Deleted ${ago} days ago`;
+  const purgeAt = getPurgeAt(task, retentionDays);
+  if (!purgeAt) return deleted;
+  const left = Math.max(Math.ceil((purgeAt.getTime() - now.getTime()) / DAY_MS), 0);
+  return `${deleted} · gone in ${left} ${left === 1 ? 'day' : 'days'}`;
+}